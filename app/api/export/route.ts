@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { format } from "date-fns"
+import { createDataExport } from "@/lib/data-export"
+import { createServerClient } from "@/lib/pocketbase-server"
+
+// Download everything stored about the signed-in user as a ZIP archive
+export async function GET() {
+  const pb = await createServerClient()
+  const userId = pb.authStore.record?.id
+
+  if (!pb.authStore.isValid || !userId) {
+    return NextResponse.json({ message: "Not signed in." }, { status: 401 })
+  }
+
+  try {
+    const archive = await createDataExport(pb, userId)
+    const headers = new Headers(archive.headers)
+    headers.set("Content-Disposition", `attachment; filename="data-export-${format(new Date(), "yyyy-MM-dd")}.zip"`)
+    headers.set("Cache-Control", "no-store")
+
+    return new Response(archive.body, { headers })
+  } catch (error) {
+    console.error("Failed to export user data:", error)
+    return NextResponse.json({ message: "Failed to prepare your data export." }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createServerClient } from "@/lib/pocketbase-server"
+import { LOGIN_EVENTS_COLLECTION, type LoginMethod } from "@/lib/login-events"
+import { getClientIp } from "@/lib/request"
+
+const LOGIN_METHODS: LoginMethod[] = ["password", "otp", "mfa", "oauth2"]
+
+// Record a successful sign-in of the user from the cookie. Failed attempts are recorded by the backend itself.
+export async function POST(request: NextRequest) {
+  const pb = await createServerClient()
+  const { method } = await request.json().catch(() => ({}))
+
+  if (!LOGIN_METHODS.includes(method)) {
+    return NextResponse.json({ message: "Unknown login method." }, { status: 400 })
+  }
+
+  if (!pb.authStore.isValid || !pb.authStore.record) {
+    return NextResponse.json({ message: "Not signed in." }, { status: 401 })
+  }
+
+  try {
+    await pb.collection(LOGIN_EVENTS_COLLECTION).create({
+      user: pb.authStore.record.id,
+      identity: pb.authStore.record.email,
+      method,
+      success: true,
+      ip: getClientIp(request),
+      userAgent: request.headers.get("user-agent") || "",
+    })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to record login event:", error)
+    return NextResponse.json({ message: "Failed to record login event." }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { ClientResponseError } from "pocketbase"
+import { createServerClient } from "@/lib/pocketbase-server"
+import { getClientIp, getClientLocation } from "@/lib/request"
+import { SESSIONS_COLLECTION, type Session } from "@/lib/sessions"
+
+// Record activity for the signed-in user's session on this browser.
+// Responds 410 when the session was revoked from another device, 401 when the backend no longer accepts the token.
+export async function POST(request: NextRequest) {
+  const pb = await createServerClient()
+  const userId = pb.authStore.record?.id
+
+  if (!pb.authStore.isValid || !userId) {
+    return NextResponse.json({ message: "Not signed in." }, { status: 401 })
+  }
+
+  const { sessionId } = await request.json().catch(() => ({ sessionId: null }))
+  const data = {
+    userAgent: request.headers.get("user-agent") || "",
+    ip: getClientIp(request),
+    location: getClientLocation(request),
+    lastActive: new Date().toISOString(),
+  }
+
+  try {
+    // The token may have been invalidated by "sign out all other sessions", or the account disabled or deleted
+    try {
+      await pb.collection("users").getOne(userId, { fields: "id" })
+    } catch (error) {
+      if (error instanceof ClientResponseError && error.status === 404) {
+        return NextResponse.json({ message: "This session has been signed out." }, { status: 401 })
+      }
+      throw error
+    }
+
+    if (sessionId) {
+      try {
+        const session = await pb.collection(SESSIONS_COLLECTION).getOne<Session>(sessionId)
+        if (session.revoked) {
+          return NextResponse.json({ message: "This session has been signed out." }, { status: 410 })
+        }
+
+        await pb.collection(SESSIONS_COLLECTION).update(sessionId, data)
+        return NextResponse.json({ id: sessionId })
+      } catch (error) {
+        // Unknown or deleted session, start a new one below
+        if (!(error instanceof ClientResponseError && error.status === 404)) throw error
+      }
+    }
+
+    const session = await pb.collection(SESSIONS_COLLECTION).create<Session>({ ...data, user: userId, revoked: false })
+    return NextResponse.json({ id: session.id })
+  } catch (error) {
+    console.error("Failed to track session:", error)
+    const status = error instanceof ClientResponseError && error.status ? error.status : 500
+    return NextResponse.json({ message: "Failed to track session." }, { status })
+  }
+}
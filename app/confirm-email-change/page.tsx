@@ -4,6 +4,7 @@ import { useEffect, useState } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { pb } from "@/lib/pocketbase"
+import { clearPendingEmailChangeForToken } from "@/lib/email-change"
 import { Loader2, CheckCircle, XCircle, AlertTriangle, ArrowLeft } from "lucide-react"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { z } from "zod"
@@ -94,6 +95,8 @@ export default function ConfirmEmailChangePage() {
         setStatus("error")
 
         if (validation.error === "Token expired" && validation.data) {
+          // The change can no longer be confirmed, so it's no longer pending in Settings
+          clearPendingEmailChangeForToken(token)
           setErrorType("expired")
           setTokenData(validation.data as TokenData)
           setMessage(`Your email change link has expired. Please request a new email change.`)
@@ -128,6 +131,7 @@ export default function ConfirmEmailChangePage() {
     try {
       // Confirm the email change using the token and password
       await pb.collection("users").confirmEmailChange(token, data.password)
+      clearPendingEmailChangeForToken(token)
 
       // If successful, update status
       setStatus("success")
@@ -0,0 +1,13 @@
+import { UsersTable } from "@/components/admin/users-table"
+
+// Only reachable with the "users:manage" permission, see ROUTE_PERMISSIONS in lib/roles
+export default function AdminUsersPage() {
+  return (
+    <div className="h-full overflow-auto">
+      <div className="container mx-auto py-6">
+        <h1 className="text-3xl font-bold mb-6 text-black">Users</h1>
+        <UsersTable />
+      </div>
+    </div>
+  )
+}
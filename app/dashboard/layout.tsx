@@ -3,21 +3,26 @@
 import type React from "react"
 
 import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
+import { usePathname, useRouter } from "next/navigation"
 import { useAuth } from "@/context/auth-context"
+import { WorkspaceProvider } from "@/context/workspace-context"
+import { useRole } from "@/hooks/use-role"
+import { getRoutePermission } from "@/lib/roles"
 import { Loader2 } from "lucide-react"
 import { Navbar } from "@/components/dashboard/navbar"
 import { Sidebar } from "@/components/dashboard/sidebar"
+import { IdleTimeoutDialog } from "@/components/dashboard/idle-timeout-dialog"
+import { NewDeviceBanner } from "@/components/dashboard/new-device-banner"
+import { Forbidden } from "@/components/auth/forbidden"
 
-export default function DashboardLayout({
-  children,
-}: {
-  children: React.ReactNode
-}) {
+export default function DashboardLayout({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth()
+  const { can } = useRole()
   const router = useRouter()
+  const pathname = usePathname()
   const [sidebarOpen, setSidebarOpen] = useState(false)
 
+  // The middleware guards this route on the server; this catches sessions that end while the page is open
   useEffect(() => {
     if (!isLoading) {
       if (!user) {
@@ -40,32 +45,51 @@ export default function DashboardLayout({
     return null
   }
 
+  // The middleware checks the role on navigation; this covers roles changed while the page is open
+  const permission = getRoutePermission(pathname)
+  const isForbidden = permission !== null && !can(permission)
+
+  // Data in the dashboard is scoped to the active workspace
   return (
-    <div className="flex h-screen bg-white">
-      {/* Mobile sidebar backdrop */}
-      {sidebarOpen && (
-        <div className="fixed inset-0 z-40 bg-black/20 md:hidden" onClick={() => setSidebarOpen(false)} />
-      )}
+    <WorkspaceProvider>
+      <div className="flex h-screen bg-white">
+        {/* Mobile sidebar backdrop */}
+        {sidebarOpen && (
+          <div className="fixed inset-0 z-40 bg-black/20 md:hidden" onClick={() => setSidebarOpen(false)} />
+        )}
 
-      {/* Mobile sidebar */}
-      <div
-        className={`fixed inset-y-0 left-0 z-50 w-64 transform border-r border-black bg-white transition-transform duration-200 ease-in-out md:hidden ${
-          sidebarOpen ? "translate-x-0" : "-translate-x-full"
-        }`}
-      >
-        <Sidebar />
-      </div>
+        {/* Mobile sidebar */}
+        <div
+          className={`fixed inset-y-0 left-0 z-50 w-64 transform border-r border-black bg-white transition-transform duration-200 ease-in-out md:hidden ${
+            sidebarOpen ? "translate-x-0" : "-translate-x-full"
+          }`}
+        >
+          <Sidebar />
+        </div>
 
-      {/* Desktop sidebar */}
-      <div className="hidden md:block md:w-64 border-r border-black">
-        <Sidebar />
-      </div>
+        {/* Desktop sidebar */}
+        <div className="hidden md:block md:w-64 border-r border-black">
+          <Sidebar />
+        </div>
+
+        {/* Main content */}
+        <div className="flex flex-1 flex-col w-[calc(100%-16rem)]">
+          <Navbar onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
+          <NewDeviceBanner />
+          <main className="flex-1 overflow-hidden">
+            {isForbidden ? (
+              <div className="flex h-full items-center justify-center p-4">
+                <Forbidden />
+              </div>
+            ) : (
+              children
+            )}
+          </main>
+        </div>
 
-      {/* Main content */}
-      <div className="flex flex-1 flex-col w-[calc(100%-16rem)]">
-        <Navbar onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
-        <main className="flex-1 overflow-hidden">{children}</main>
+        {/* Sign out after a period of inactivity */}
+        <IdleTimeoutDialog />
       </div>
-    </div>
+    </WorkspaceProvider>
   )
 }
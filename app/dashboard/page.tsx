@@ -1,9 +1,8 @@
-"use client"
+import { createServerClient, getServerUser } from "@/lib/pocketbase-server"
 
-import { useAuth } from "@/context/auth-context"
-
-export default function DashboardPage() {
-  const { user } = useAuth()
+export default async function DashboardPage() {
+  const pb = await createServerClient()
+  const user = await getServerUser(pb)
 
   return (
     <div className="h-full w-full">
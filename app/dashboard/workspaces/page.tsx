@@ -0,0 +1,13 @@
+import { WorkspaceSettings } from "@/components/workspaces/workspace-settings"
+
+// Linked from the invitation email with ?invitation=<id>, see pb_hooks/workspace_invitations.pb.js
+export default function WorkspacesPage() {
+  return (
+    <div className="h-full overflow-auto">
+      <div className="container mx-auto py-6 max-w-3xl">
+        <h1 className="text-3xl font-bold mb-6 text-black">Workspaces</h1>
+        <WorkspaceSettings />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { Forbidden } from "@/components/auth/forbidden"
+
+// The middleware rewrites routes the user's role doesn't allow to this page, with a 403 status
+export default function ForbiddenPage() {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-white">
+      <Forbidden />
+    </div>
+  )
+}
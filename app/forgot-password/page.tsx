@@ -5,11 +5,13 @@ import Link from "next/link"
 import { z } from "zod"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { ClientResponseError } from "pocketbase"
 import { AlertCircle, ArrowLeft, Loader2, Mail } from "lucide-react"
 
 import { pb } from "@/lib/pocketbase"
-import { Button } from "@/components/ui/button"
+import { applyFormErrors, getErrorMessage } from "@/lib/form-errors"
+import { startCooldown, startCooldownFromError } from "@/lib/cooldown"
+import { useCooldown } from "@/hooks/use-cooldown"
+import { CooldownButton } from "@/components/cooldown-button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
@@ -24,6 +26,8 @@ type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>
 export default function ForgotPasswordPage() {
   const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  // Address the reset email went to, the confirmation is shown once it's set
+  const [sentTo, setSentTo] = useState("")
 
   const form = useForm<ForgotPasswordFormValues>({
     resolver: zodResolver(forgotPasswordSchema),
@@ -32,27 +36,29 @@ export default function ForgotPasswordPage() {
     },
   })
 
+  const email = form.watch("email")
+  const cooldown = useCooldown("password-reset", sentTo || email)
+
   const onSubmit = async (data: ForgotPasswordFormValues) => {
     setIsLoading(true)
     setStatus(null)
 
     try {
       await pb.collection("users").requestPasswordReset(data.email)
+      startCooldown("password-reset", data.email)
+      setSentTo(data.email)
       setStatus({
         success: true,
         message: "Password reset instructions have been sent to your email.",
       })
       form.reset()
     } catch (err) {
-      if (err instanceof ClientResponseError) {
+      startCooldownFromError("password-reset", data.email, err)
+      const message = applyFormErrors(err, form)
+      if (message) {
         setStatus({
           success: false,
-          message: err.message,
-        })
-      } else {
-        setStatus({
-          success: false,
-          message: "An unexpected error occurred. Please try again.",
+          message,
         })
       }
     } finally {
@@ -60,6 +66,27 @@ export default function ForgotPasswordPage() {
     }
   }
 
+  const handleResend = async () => {
+    setIsLoading(true)
+
+    try {
+      await pb.collection("users").requestPasswordReset(sentTo)
+      startCooldown("password-reset", sentTo)
+      setStatus({
+        success: true,
+        message: "Password reset instructions have been sent again.",
+      })
+    } catch (err) {
+      startCooldownFromError("password-reset", sentTo, err)
+      setStatus({
+        success: false,
+        message: getErrorMessage(err),
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   return (
     <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-white">
       <Card className="w-full max-w-md mx-auto border border-black">
@@ -82,7 +109,7 @@ export default function ForgotPasswordPage() {
             </Alert>
           )}
 
-          {status?.success ? (
+          {sentTo ? (
             <div className="flex flex-col items-center justify-center p-6 border border-black text-center space-y-4">
               <Mail className="h-12 w-12 text-black" />
               <h2 className="text-xl font-medium">Check Your Email</h2>
@@ -90,6 +117,22 @@ export default function ForgotPasswordPage() {
                 We've sent password reset instructions to your email. Please check your inbox and follow the link to
                 reset your password.
               </p>
+              <CooldownButton
+                variant="outline"
+                onClick={handleResend}
+                className="border-black text-black hover:bg-black/5"
+                disabled={isLoading}
+                remaining={cooldown}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Resend Email"
+                )}
+              </CooldownButton>
             </div>
           ) : (
             <Form {...form}>
@@ -111,7 +154,12 @@ export default function ForgotPasswordPage() {
                     </FormItem>
                   )}
                 />
-                <Button type="submit" className="w-full bg-black text-white hover:bg-black/90" disabled={isLoading}>
+                <CooldownButton
+                  type="submit"
+                  className="w-full bg-black text-white hover:bg-black/90"
+                  disabled={isLoading}
+                  remaining={cooldown}
+                >
                   {isLoading ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -120,7 +168,7 @@ export default function ForgotPasswordPage() {
                   ) : (
                     "Send Reset Link"
                   )}
-                </Button>
+                </CooldownButton>
               </form>
             </Form>
           )}
@@ -0,0 +1,29 @@
+import Link from "next/link"
+import { HeartHandshake } from "lucide-react"
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+
+export default function GoodbyePage() {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-white">
+      <Card className="w-full max-w-md mx-auto border border-black">
+        <CardHeader className="border-b border-black">
+          <CardTitle className="text-2xl">Your account has been deleted</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 flex flex-col items-center justify-center space-y-4">
+          <HeartHandshake className="h-16 w-16 text-black" />
+          <p className="text-center text-black">
+            Your account and the data that belonged to it have been permanently removed. Thanks for having been with us.
+          </p>
+        </CardContent>
+        <CardFooter className="flex justify-center border-t border-black py-4">
+          <p className="text-sm text-black">
+            Changed your mind?{" "}
+            <Link href="/register" className="text-black font-bold underline underline-offset-4">
+              Create a new account
+            </Link>
+          </p>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import { AuthProvider } from "@/context/auth-context"
+import { createServerClient } from "@/lib/pocketbase-server"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -12,15 +13,18 @@ export const metadata: Metadata = {
     generator: 'v0.dev'
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const pb = await createServerClient()
+  const initialRecord = pb.authStore.isValid ? pb.authStore.record : null
+
   return (
     <html lang="en">
       <body className={`${inter.className}`}>
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider initialRecord={initialRecord}>{children}</AuthProvider>
       </body>
     </html>
   )
@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { ClientResponseError } from "pocketbase"
+import { Loader2, XCircle } from "lucide-react"
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/context/auth-context"
+
+export default function OAuthCallbackPage() {
+  const { completeOAuth2Redirect } = useAuth()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const code = searchParams.get("code")
+  const state = searchParams.get("state")
+  const providerError = searchParams.get("error")
+
+  const [status, setStatus] = useState<"loading" | "error">("loading")
+  const [message, setMessage] = useState<string>("")
+  // The code can only be exchanged once, so guard against the effect running twice
+  const hasStarted = useRef(false)
+
+  useEffect(() => {
+    if (hasStarted.current) return
+    hasStarted.current = true
+
+    const completeSignIn = async () => {
+      if (providerError || !code || !state) {
+        setStatus("error")
+        setMessage("The sign-in was cancelled or the provider returned an error.")
+        return
+      }
+
+      try {
+        // Goes on to the app once signed in. With MFA, the login page asks for the second factor.
+        const challenge = await completeOAuth2Redirect(code, state)
+        if (challenge) {
+          router.replace("/login")
+        }
+      } catch (error) {
+        console.error("OAuth2 sign-in error:", error)
+        setStatus("error")
+        if (error instanceof ClientResponseError || error instanceof Error) {
+          setMessage(error.message)
+        } else {
+          setMessage("An unexpected error occurred. Please try again.")
+        }
+      }
+    }
+
+    completeSignIn()
+  }, [code, state, providerError, router, completeOAuth2Redirect])
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-white">
+      <Card className="w-full max-w-md mx-auto border border-black">
+        <CardHeader className="border-b border-black">
+          <CardTitle className="text-2xl">Signing In</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 flex flex-col items-center justify-center space-y-4">
+          {status === "loading" && (
+            <>
+              <Loader2 className="h-16 w-16 animate-spin text-black" />
+              <p className="text-center text-black">Completing your sign-in...</p>
+            </>
+          )}
+
+          {status === "error" && (
+            <>
+              <XCircle className="h-16 w-16 text-black" />
+              <p className="text-center text-black font-medium">{message}</p>
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center border-t border-black py-4">
+          <Link href="/login" className="text-center text-sm text-black underline underline-offset-4">
+            Return to Login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
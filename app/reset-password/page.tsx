@@ -1,32 +1,37 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { z } from "zod"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { ClientResponseError } from "pocketbase"
+import { getTokenPayload } from "pocketbase"
 import { ArrowLeft, CheckCircle, Loader2, XCircle } from "lucide-react"
 
 import { pb } from "@/lib/pocketbase"
+import { applyFormErrors } from "@/lib/form-errors"
+import { refinePassword, type PersonalInfo } from "@/lib/password-policy"
 import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { PasswordStrengthMeter } from "@/components/auth/password-strength-meter"
 
-const resetPasswordSchema = z
-  .object({
-    password: z.string().min(8, { message: "Password must be at least 8 characters" }),
-    passwordConfirm: z.string().min(8, { message: "Password must be at least 8 characters" }),
-  })
-  .refine((data) => data.password === data.passwordConfirm, {
-    message: "Passwords do not match",
-    path: ["passwordConfirm"],
-  })
+const buildResetPasswordSchema = (personalInfo: PersonalInfo) =>
+  z
+    .object({
+      password: z.string(),
+      passwordConfirm: z.string(),
+    })
+    .superRefine((data, ctx) => refinePassword(ctx, data.password, personalInfo))
+    .refine((data) => data.password === data.passwordConfirm, {
+      message: "Passwords do not match",
+      path: ["passwordConfirm"],
+    })
 
-type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>
+type ResetPasswordFormValues = z.infer<ReturnType<typeof buildResetPasswordSchema>>
 
 export default function ResetPasswordPage() {
   const router = useRouter()
@@ -37,6 +42,13 @@ export default function ResetPasswordPage() {
   const [message, setMessage] = useState<string>("")
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  // The reset token carries the account's email, which the new password must not contain
+  const personalInfo = useMemo<PersonalInfo>(
+    () => ({ email: token ? getTokenPayload(token).email : undefined }),
+    [token],
+  )
+  const resetPasswordSchema = useMemo(() => buildResetPasswordSchema(personalInfo), [personalInfo])
+
   const form = useForm<ResetPasswordFormValues>({
     resolver: zodResolver(resetPasswordSchema),
     defaultValues: {
@@ -67,11 +79,13 @@ export default function ResetPasswordPage() {
       setMessage("Your password has been reset successfully!")
       form.reset()
     } catch (err) {
-      setStatus("error")
-      if (err instanceof ClientResponseError) {
-        setMessage(err.message)
-      } else {
-        setMessage("An unexpected error occurred. Please try again.")
+      // Password errors go on their fields; an invalid or expired token ends up in the banner
+      const errorMessage = applyFormErrors(err, form, {
+        messages: { 400: "This reset link is invalid or has expired. Please request a new one." },
+      })
+      if (errorMessage) {
+        setStatus("error")
+        setMessage(errorMessage)
       }
     } finally {
       setIsSubmitting(false)
@@ -118,6 +132,7 @@ export default function ResetPasswordPage() {
                           className="border-black focus:ring-black"
                         />
                       </FormControl>
+                      <PasswordStrengthMeter password={field.value} personalInfo={personalInfo} />
                       <FormMessage className="text-black" />
                     </FormItem>
                   )}
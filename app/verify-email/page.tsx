@@ -6,12 +6,12 @@ import { useAuth } from "@/context/auth-context"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Badge } from "@/components/ui/badge"
+import { CooldownButton } from "@/components/cooldown-button"
+import { useCooldown } from "@/hooks/use-cooldown"
+import { startCooldown, startCooldownFromError } from "@/lib/cooldown"
+import { getErrorMessage } from "@/lib/form-errors"
 import { Loader2, AlertCircle, Mail, ArrowLeft, RefreshCw } from "lucide-react"
 
-// Cooldown time in seconds
-const RESEND_COOLDOWN = 30
-
 export default function VerifyEmailPage() {
   const { user, isLoading, logout, resendVerification, refreshVerificationStatus } = useAuth()
   const router = useRouter()
@@ -19,42 +19,14 @@ export default function VerifyEmailPage() {
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [resendStatus, setResendStatus] = useState<{ success?: boolean; message?: string } | null>(null)
   const [refreshStatus, setRefreshStatus] = useState<{ success?: boolean; message?: string } | null>(null)
-  const [countdown, setCountdown] = useState(0)
+  const countdown = useCooldown("verification", user?.email)
   const [initialEmailSent, setInitialEmailSent] = useState(false)
 
-  // Initialize countdown and email sent status from localStorage on component mount
+  // Initialize email sent status from localStorage on component mount
   useEffect(() => {
-    const lastSentTime = localStorage.getItem("lastVerificationEmailSent")
-    if (lastSentTime) {
-      setInitialEmailSent(true)
-      const elapsedSeconds = Math.floor((Date.now() - Number.parseInt(lastSentTime)) / 1000)
-      const remainingSeconds = RESEND_COOLDOWN - elapsedSeconds
-
-      if (remainingSeconds > 0) {
-        setCountdown(remainingSeconds)
-      }
-    } else {
-      setInitialEmailSent(false)
-    }
+    setInitialEmailSent(Boolean(localStorage.getItem("lastVerificationEmailSent")))
   }, [])
 
-  // Countdown timer effect
-  useEffect(() => {
-    if (countdown <= 0) return
-
-    const timer = setInterval(() => {
-      setCountdown((prevCountdown) => {
-        if (prevCountdown <= 1) {
-          clearInterval(timer)
-          return 0
-        }
-        return prevCountdown - 1
-      })
-    }, 1000)
-
-    return () => clearInterval(timer)
-  }, [countdown])
-
   useEffect(() => {
     if (!isLoading) {
       // If no user is logged in, redirect to login
@@ -78,7 +50,9 @@ export default function VerifyEmailPage() {
           await resendVerification()
           setInitialEmailSent(true)
           localStorage.setItem("lastVerificationEmailSent", Date.now().toString())
+          startCooldown("verification", user.email)
         } catch (error) {
+          startCooldownFromError("verification", user.email, error)
           console.error("Failed to send initial verification email:", error)
         }
       }
@@ -88,6 +62,8 @@ export default function VerifyEmailPage() {
   }, [initialEmailSent, user, isLoading, resendVerification])
 
   const handleResendVerification = async () => {
+    if (!user) return
+
     setIsResending(true)
     setResendStatus(null)
     setRefreshStatus(null)
@@ -104,11 +80,14 @@ export default function VerifyEmailPage() {
       setInitialEmailSent(true)
 
       // Start the countdown
-      setCountdown(RESEND_COOLDOWN)
+      startCooldown("verification", user.email)
     } catch (error) {
+      startCooldownFromError("verification", user.email, error)
       setResendStatus({
         success: false,
-        message: "Failed to send verification email. Please try again later.",
+        message: getErrorMessage(error, {
+          messages: { 400: "Failed to send verification email. Please try again later." },
+        }),
       })
     } finally {
       setIsResending(false)
@@ -198,31 +177,21 @@ export default function VerifyEmailPage() {
           )}
 
           <div className="flex flex-col space-y-2">
-            <div className="relative">
-              <Button
-                onClick={handleResendVerification}
-                className="w-full bg-black text-white hover:bg-black/90"
-                disabled={isResending || isRefreshing || countdown > 0}
-              >
-                {isResending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Sending...
-                  </>
-                ) : (
-                  <>{initialEmailSent ? "Resend Verification Email" : "Send Verification Email"}</>
-                )}
-              </Button>
-
-              {countdown > 0 && (
-                <Badge
-                  variant="default"
-                  className="absolute -top-3 -right-3 bg-black text-white px-2 py-1 rounded-full min-w-[28px] h-[28px] flex items-center justify-center"
-                >
-                  {countdown}s
-                </Badge>
+            <CooldownButton
+              onClick={handleResendVerification}
+              className="w-full bg-black text-white hover:bg-black/90"
+              disabled={isResending || isRefreshing}
+              remaining={countdown}
+            >
+              {isResending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>{initialEmailSent ? "Resend Verification Email" : "Send Verification Email"}</>
               )}
-            </div>
+            </CooldownButton>
 
             <Button
               onClick={handleRefreshVerification}
@@ -245,7 +214,7 @@ export default function VerifyEmailPage() {
           </div>
         </CardContent>
         <CardFooter className="flex justify-between border-t border-black py-4">
-          <Button variant="ghost" className="text-black hover:bg-white hover:text-black" onClick={logout}>
+          <Button variant="ghost" className="text-black hover:bg-white hover:text-black" onClick={() => logout()}>
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Login
           </Button>
@@ -0,0 +1,151 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Eye, Loader2 } from "lucide-react"
+
+import { useAuth, type User } from "@/context/auth-context"
+import { IMPERSONATION_DURATION } from "@/lib/impersonation"
+import { getErrorMessage } from "@/lib/form-errors"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+const superuserSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address" }),
+  password: z.string().min(1, { message: "Password is required" }),
+})
+
+type SuperuserFormValues = z.infer<typeof superuserSchema>
+
+// Only superusers can impersonate, so their credentials are asked for every time instead of being kept around
+const IMPERSONATION_MESSAGES = {
+  400: "Invalid superuser email or password.",
+  403: "Only superusers can view the app as another user.",
+  404: "This user no longer exists.",
+}
+
+interface ImpersonateDialogProps {
+  // The user to view the app as; the dialog is open while it is set
+  user: User | null
+  onClose: () => void
+}
+
+export function ImpersonateDialog({ user, onClose }: ImpersonateDialogProps) {
+  const { startImpersonation } = useAuth()
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const form = useForm<SuperuserFormValues>({
+    resolver: zodResolver(superuserSchema),
+    defaultValues: { email: "", password: "" },
+  })
+
+  // Don't keep the password around once the dialog closes
+  useEffect(() => {
+    form.reset()
+    setError(null)
+  }, [user, form])
+
+  const onSubmit = async (data: SuperuserFormValues) => {
+    if (!user) return
+    setIsStarting(true)
+    setError(null)
+
+    try {
+      await startImpersonation(user.id, data.email, data.password)
+      onClose()
+    } catch (err) {
+      setError(getErrorMessage(err, { messages: IMPERSONATION_MESSAGES }))
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <Dialog open={user !== null} onOpenChange={(open) => !open && !isStarting && onClose()}>
+      <DialogContent className="border border-black sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>View as {user?.name || user?.email}</DialogTitle>
+          <DialogDescription className="text-black">
+            You'll see the app exactly as this user does for up to {IMPERSONATION_DURATION / 60} minutes. Password and
+            email changes are blocked, and you can exit at any time from the banner at the top.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive" className="border border-black bg-white text-black">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-black">Superuser email</FormLabel>
+                  <FormControl>
+                    <Input type="email" autoComplete="off" {...field} className="border-black focus:ring-black" />
+                  </FormControl>
+                  <FormMessage className="text-black" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-black">Superuser password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="off" {...field} className="border-black focus:ring-black" />
+                  </FormControl>
+                  <FormMessage className="text-black" />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={isStarting}
+                className="border-black text-black hover:bg-black/5"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isStarting} className="bg-black text-white hover:bg-black/90">
+                {isStarting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Starting...
+                  </>
+                ) : (
+                  <>
+                    <Eye className="mr-2 h-4 w-4" />
+                    View as User
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { format } from "date-fns"
+import { AlertCircle, Ban, Eye, KeyRound, Loader2, Mail, Save, UserCheck } from "lucide-react"
+
+import { useAuth, type User } from "@/context/auth-context"
+import { useCooldown } from "@/hooks/use-cooldown"
+import { sendPasswordResetEmail, sendVerificationEmail, updateUser } from "@/lib/admin-users"
+import { startCooldown, startCooldownFromError, type CooldownAction } from "@/lib/cooldown"
+import { applyFormErrors, getErrorMessage } from "@/lib/form-errors"
+import { ROLES, ROLE_LABELS, getRole, type Role } from "@/lib/roles"
+import { parsePocketBaseDate } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { ImpersonateDialog } from "@/components/admin/impersonate-dialog"
+import { CooldownButton } from "@/components/cooldown-button"
+import { UserAvatar } from "@/components/user-avatar"
+
+const userSchema = z.object({
+  name: z.string(),
+  email: z.string().email({ message: "Please enter a valid email address" }),
+  role: z.enum(ROLES as [Role, ...Role[]]),
+  verified: z.boolean(),
+})
+
+type UserFormValues = z.infer<typeof userSchema>
+
+const toFormValues = (user: User | null): UserFormValues => ({
+  name: user?.name || "",
+  email: user?.email || "",
+  role: getRole(user?.role),
+  verified: Boolean(user?.verified),
+})
+
+interface UserDetailSheetProps {
+  // The user shown, the sheet is closed when null
+  user: User | null
+  onClose: () => void
+  // Called with the saved record after every change
+  onUpdated: (user: User) => void
+}
+
+export function UserDetailSheet({ user, onClose, onUpdated }: UserDetailSheetProps) {
+  const { user: currentUser } = useAuth()
+  const [isSaving, setIsSaving] = useState(false)
+  const [pendingAction, setPendingAction] = useState<CooldownAction | "disable" | null>(null)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+  const [showImpersonate, setShowImpersonate] = useState(false)
+  const verificationCooldown = useCooldown("verification", user?.email)
+  const passwordResetCooldown = useCooldown("password-reset", user?.email)
+
+  // Admins can't demote or disable themselves, so there's always someone left to undo it
+  const isSelf = user?.id === currentUser?.id
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userSchema),
+    defaultValues: toFormValues(user),
+  })
+
+  // Show the saved values after every change, but keep the status until another user is opened
+  useEffect(() => {
+    form.reset(toFormValues(user))
+  }, [user, form])
+
+  useEffect(() => {
+    setStatus(null)
+    setShowImpersonate(false)
+  }, [user?.id])
+
+  if (!user) return null
+
+  const onSubmit = async (data: UserFormValues) => {
+    setIsSaving(true)
+    setStatus(null)
+
+    try {
+      const updated = await updateUser(user.id, data)
+      onUpdated(updated)
+      setStatus({ success: true, message: "User updated successfully!" })
+    } catch (err) {
+      const message = applyFormErrors(err, form)
+      if (message) setStatus({ success: false, message })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const sendEmail = async (action: CooldownAction, send: (email: string) => Promise<void>, message: string) => {
+    setPendingAction(action)
+    setStatus(null)
+
+    try {
+      await send(user.email)
+      startCooldown(action, user.email)
+      setStatus({ success: true, message })
+    } catch (error) {
+      startCooldownFromError(action, user.email, error)
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleToggleDisabled = async () => {
+    setPendingAction("disable")
+    setStatus(null)
+
+    try {
+      const updated = await updateUser(user.id, { disabled: !user.disabled })
+      onUpdated(updated)
+      setStatus({
+        success: true,
+        message: updated.disabled
+          ? "Account disabled. The user can't sign in, and their open sessions are signed out within a few minutes."
+          : "Account enabled. The user can sign in again.",
+      })
+    } catch (error) {
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const isBusy = isSaving || pendingAction !== null
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto border-black sm:max-w-md">
+        <SheetHeader className="border-b border-black pb-4">
+          <div className="flex items-center gap-3">
+            <UserAvatar user={user} size="md" className="h-12 w-12" />
+            <div className="min-w-0 text-left">
+              <SheetTitle className="truncate">{user.name || user.email}</SheetTitle>
+              <SheetDescription className="truncate text-black/60">{user.email}</SheetDescription>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="border-black text-black">
+              {ROLE_LABELS[getRole(user.role)]}
+            </Badge>
+            {!user.verified && (
+              <Badge variant="outline" className="border-black text-black">
+                Unverified
+              </Badge>
+            )}
+            {user.disabled && <Badge className="bg-black text-white hover:bg-black">Disabled</Badge>}
+          </div>
+          <p className="text-left text-sm text-black/60">
+            Joined {format(parsePocketBaseDate(user.created), "PPp")} · ID {user.id}
+          </p>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          {status && (
+            <Alert
+              variant={status.success ? "default" : "destructive"}
+              className="border border-black bg-white text-black"
+            >
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{status.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black">Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="border-black focus:ring-black" />
+                    </FormControl>
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black">Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} className="border-black focus:ring-black" />
+                    </FormControl>
+                    <FormDescription>Changed immediately, without a confirmation email.</FormDescription>
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black">Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSelf}>
+                      <FormControl>
+                        <SelectTrigger className="border-black focus:ring-black">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isSelf && <FormDescription>You can't change your own role.</FormDescription>}
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="verified"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between border border-black p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-black">Email verified</FormLabel>
+                      <FormDescription>Mark the email as verified without the confirmation link.</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full bg-black text-white hover:bg-black/90" disabled={isBusy}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Changes
+                  </>
+                )}
+              </Button>
+            </form>
+          </Form>
+
+          <div className="space-y-2 border-t border-black pt-6">
+            {!user.verified && (
+              <CooldownButton
+                variant="outline"
+                onClick={() =>
+                  sendEmail("verification", sendVerificationEmail, `Verification email sent to ${user.email}.`)
+                }
+                className="w-full border-black text-black hover:bg-black/5"
+                disabled={isBusy}
+                remaining={verificationCooldown}
+              >
+                {pendingAction === "verification" ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Mail className="mr-2 h-4 w-4" />
+                )}
+                Resend Verification Email
+              </CooldownButton>
+            )}
+            <CooldownButton
+              variant="outline"
+              onClick={() =>
+                sendEmail("password-reset", sendPasswordResetEmail, `Password reset email sent to ${user.email}.`)
+              }
+              className="w-full border-black text-black hover:bg-black/5"
+              disabled={isBusy}
+              remaining={passwordResetCooldown}
+            >
+              {pendingAction === "password-reset" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <KeyRound className="mr-2 h-4 w-4" />
+              )}
+              Send Password Reset Email
+            </CooldownButton>
+            <Button
+              variant="outline"
+              onClick={handleToggleDisabled}
+              className="w-full border-black text-black hover:bg-black/5"
+              disabled={isBusy || isSelf}
+            >
+              {pendingAction === "disable" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : user.disabled ? (
+                <UserCheck className="mr-2 h-4 w-4" />
+              ) : (
+                <Ban className="mr-2 h-4 w-4" />
+              )}
+              {user.disabled ? "Enable Account" : "Disable Account"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowImpersonate(true)}
+              className="w-full border-black text-black hover:bg-black/5"
+              disabled={isBusy || isSelf}
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              View as This User
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+      <ImpersonateDialog user={showImpersonate ? user : null} onClose={() => setShowImpersonate(false)} />
+    </Sheet>
+  )
+}
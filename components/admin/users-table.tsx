@@ -0,0 +1,287 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { format } from "date-fns"
+import { ClientResponseError, type ListResult } from "pocketbase"
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown, Loader2, Search } from "lucide-react"
+
+import type { User } from "@/context/auth-context"
+import { DEFAULT_USER_SORT, listUsers, type UserSort, type UserSortField, type VerifiedFilter } from "@/lib/admin-users"
+import { ROLE_LABELS, getRole } from "@/lib/roles"
+import { cn, parsePocketBaseDate } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { UserDetailSheet } from "@/components/admin/user-detail-sheet"
+import { UserAvatar } from "@/components/user-avatar"
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 300
+
+const VERIFIED_FILTER_LABELS: Record<VerifiedFilter, string> = {
+  all: "All users",
+  verified: "Verified",
+  unverified: "Unverified",
+}
+
+const SORTABLE_COLUMNS: { field: UserSortField; label: string }[] = [
+  { field: "name", label: "Name" },
+  { field: "email", label: "Email" },
+  { field: "created", label: "Joined" },
+]
+
+// Page numbers to link to: the first, the last and the ones around the current page, null for a gap
+const getPageNumbers = (page: number, totalPages: number) => {
+  const pages: (number | null)[] = []
+  for (let i = 1; i <= totalPages; i++) {
+    if (i === 1 || i === totalPages || Math.abs(i - page) <= 1) {
+      pages.push(i)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+// The list state lives in the URL (?q=&verified=&sort=&page=), so it survives reloads and can be shared
+export function UsersTable() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const search = searchParams.get("q") || ""
+  const verified = (searchParams.get("verified") as VerifiedFilter) || "all"
+  const sort = (searchParams.get("sort") as UserSort) || DEFAULT_USER_SORT
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1)
+
+  const [searchInput, setSearchInput] = useState(search)
+  const [result, setResult] = useState<ListResult<User> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedUser, setSelectedUser] = useState<User | null>(null)
+
+  // Link to the list with some parameters changed, back on the first page unless the page itself changes
+  const getHref = (changes: Record<string, string | number>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (!("page" in changes)) params.delete("page")
+    for (const [key, value] of Object.entries(changes)) {
+      params.set(key, value.toString())
+    }
+    return `${pathname}?${params.toString()}`
+  }
+
+  useEffect(() => {
+    if (searchInput === search) return
+
+    const timer = setTimeout(() => router.replace(getHref({ q: searchInput })), SEARCH_DELAY)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  useEffect(() => {
+    setIsLoading(true)
+    setError(null)
+
+    listUsers({ page, search, verified, sort })
+      .then((list) => {
+        setResult(list)
+        setIsLoading(false)
+      })
+      .catch((err) => {
+        // Replaced by a newer request, which will update the list
+        if (err instanceof ClientResponseError && err.isAbort) return
+        console.error("Failed to load users:", err)
+        setError("Failed to load users. Please try again.")
+        setIsLoading(false)
+      })
+  }, [page, search, verified, sort])
+
+  const handleUpdated = (updated: User) => {
+    setSelectedUser(updated)
+    setResult(
+      (current) =>
+        current && { ...current, items: current.items.map((item) => (item.id === updated.id ? updated : item)) },
+    )
+  }
+
+  // Keep page links real links, but navigate on the client instead of reloading
+  const navigateTo = (href: string) => (event: React.MouseEvent) => {
+    event.preventDefault()
+    router.push(href)
+  }
+
+  const getSortHref = (field: UserSortField) => getHref({ sort: sort === field ? `-${field}` : field })
+
+  const getSortIcon = (field: UserSortField) => {
+    if (sort === field) return <ArrowUp className="h-4 w-4" />
+    if (sort === `-${field}`) return <ArrowDown className="h-4 w-4" />
+    return <ArrowUpDown className="h-4 w-4 text-black/40" />
+  }
+
+  const totalPages = result?.totalPages || 1
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-black/60" />
+          <Input
+            value={searchInput}
+            onChange={(event) => setSearchInput(event.target.value)}
+            placeholder="Search by name, email or ID"
+            className="border-black pl-9 focus:ring-black"
+            aria-label="Search users"
+          />
+        </div>
+        <Select value={verified} onValueChange={(value) => router.replace(getHref({ verified: value }))}>
+          <SelectTrigger className="border-black focus:ring-black sm:w-44" aria-label="Filter by verification">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(VERIFIED_FILTER_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="border border-black bg-white text-black">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="border border-black">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-black">
+              {SORTABLE_COLUMNS.map((column) => (
+                <TableHead key={column.field} className="text-black">
+                  <button
+                    type="button"
+                    onClick={() => router.replace(getSortHref(column.field))}
+                    className="flex items-center gap-1 font-medium"
+                  >
+                    {column.label}
+                    {getSortIcon(column.field)}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead className="text-black">Role</TableHead>
+              <TableHead className="text-black">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow className="border-black">
+                <TableCell colSpan={5}>
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-6 w-6 animate-spin text-black" />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : result?.items.length === 0 ? (
+              <TableRow className="border-black">
+                <TableCell colSpan={5} className="py-6 text-center text-black">
+                  No users match your search.
+                </TableCell>
+              </TableRow>
+            ) : (
+              result?.items.map((user) => (
+                <TableRow
+                  key={user.id}
+                  onClick={() => setSelectedUser(user)}
+                  className={cn("cursor-pointer border-black", user.disabled && "text-black/50")}
+                >
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <UserAvatar user={user} />
+                      <span className="font-medium">{user.name || "—"}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell className="whitespace-nowrap">{format(parsePocketBaseDate(user.created), "PP")}</TableCell>
+                  <TableCell>{ROLE_LABELS[getRole(user.role)]}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {user.disabled ? (
+                        <Badge className="bg-black text-white hover:bg-black">Disabled</Badge>
+                      ) : (
+                        <Badge variant="outline" className="border-black text-black">
+                          {user.verified ? "Verified" : "Unverified"}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {result && totalPages > 1 && (
+        <div className="flex flex-col items-center gap-2">
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href={getHref({ page: Math.max(page - 1, 1) })}
+                  onClick={navigateTo(getHref({ page: Math.max(page - 1, 1) }))}
+                  aria-disabled={page <= 1}
+                  className={cn(page <= 1 && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+              {getPageNumbers(page, totalPages).map((pageNumber, index) =>
+                pageNumber === null ? (
+                  <PaginationItem key={`gap-${index}`}>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                ) : (
+                  <PaginationItem key={pageNumber}>
+                    <PaginationLink
+                      href={getHref({ page: pageNumber })}
+                      onClick={navigateTo(getHref({ page: pageNumber }))}
+                      isActive={pageNumber === page}
+                      className={cn(pageNumber === page && "border-black")}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  </PaginationItem>
+                ),
+              )}
+              <PaginationItem>
+                <PaginationNext
+                  href={getHref({ page: Math.min(page + 1, totalPages) })}
+                  onClick={navigateTo(getHref({ page: Math.min(page + 1, totalPages) }))}
+                  aria-disabled={page >= totalPages}
+                  className={cn(page >= totalPages && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+          <p className="text-sm text-black/60">
+            {result.totalItems} users · page {page} of {totalPages}
+          </p>
+        </div>
+      )}
+
+      <UserDetailSheet user={selectedUser} onClose={() => setSelectedUser(null)} onUpdated={handleUpdated} />
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import Link from "next/link"
+import { ArrowLeft, ShieldAlert } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+
+// 403 message for routes and sections the active account's role doesn't allow
+export function Forbidden() {
+  return (
+    <Card className="w-full max-w-md mx-auto border border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle className="text-2xl">Access Denied</CardTitle>
+        <CardDescription className="text-black">Error 403</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="flex flex-col items-center justify-center p-6 border border-black text-center space-y-4">
+          <ShieldAlert className="h-12 w-12 text-black" />
+          <p className="text-black">
+            You don't have permission to view this page. If you think you should, ask an admin to change your role.
+          </p>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-center border-t border-black py-4">
+        <Button asChild variant="ghost" className="text-black hover:bg-black/5">
+          <Link href="/dashboard">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -1,12 +1,11 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
+import { useState, useEffect, useMemo } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { z } from "zod"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { ClientResponseError } from "pocketbase"
 import { AlertCircle, Loader2, Mail, KeyRound, ArrowRight } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -14,53 +13,97 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { useAuth } from "@/context/auth-context"
+import { OAuthButtons } from "@/components/auth/oauth-buttons"
+import { CooldownButton } from "@/components/cooldown-button"
+import { useAuth, type LogoutReason } from "@/context/auth-context"
+import { ADD_ACCOUNT_PARAM } from "@/lib/auth-cookie"
+import { REGISTRATION_MODE } from "@/lib/invites"
+import { useAuthMethods } from "@/hooks/use-auth-methods"
+import { useCooldown } from "@/hooks/use-cooldown"
+import {
+  getIdentityFields,
+  getIdentityLabel,
+  getLoginMode,
+  getOAuthProviders,
+  type LoginMode,
+} from "@/lib/auth-methods"
+import { OTP_NEW_ACCOUNT_FLOW, ensureOtpAccount } from "@/lib/otp"
 import { pb } from "@/lib/pocketbase"
+import { applyFormErrors, getErrorMessage } from "@/lib/form-errors"
+import { startCooldown, startCooldownFromError } from "@/lib/cooldown"
 
-const loginSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address" }),
-  password: z.string().min(8, { message: "Password must be at least 8 characters" }),
-})
+// The login schema depends on what the backend accepts, so it is built once the auth methods are known
+const buildLoginSchema = (mode: LoginMode, identityFields: string[]) => {
+  const emailOnly = mode === "otp" || (identityFields.length === 1 && identityFields[0] === "email")
+
+  return z.object({
+    identity: emailOnly
+      ? z.string().email({ message: "Please enter a valid email address" })
+      : z.string().min(1, { message: `Please enter your ${getIdentityLabel(identityFields).toLowerCase()}` }),
+    password: mode === "otp" ? z.string() : z.string().min(8, { message: "Password must be at least 8 characters" }),
+  })
+}
 
 const otpSchema = z.object({
   otp: z.string().min(6, { message: "Please enter the verification code" }),
 })
 
-type LoginFormValues = z.infer<typeof loginSchema>
+// Messages for the ?reason= the user was signed out with
+const LOGOUT_MESSAGES: Record<LogoutReason, string> = {
+  "session-expired": "Your session has expired. Please log in again.",
+  idle: "You were logged out after a period of inactivity.",
+  "session-revoked": "This session was signed out from another device.",
+}
+
+type LoginFormValues = z.infer<ReturnType<typeof buildLoginSchema>>
 type OtpFormValues = z.infer<typeof otpSchema>
 
 export function LoginForm() {
-  const { login } = useAuth()
+  const { accounts, mfaChallenge, login, verifyOtp, cancelMfa, switchAccount } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const logoutMessage = LOGOUT_MESSAGES[searchParams.get("reason") as LogoutReason] || null
+  // Signing in to another account while keeping the current sessions
+  const isAddingAccount = searchParams.has(ADD_ACCOUNT_PARAM)
+  const { authMethods, isLoading: isLoadingAuthMethods } = useAuthMethods()
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
-  const [existingUser, setExistingUser] = useState<{ name: string; email: string } | null>(null)
 
   // OTP related states
   const [showOtpForm, setShowOtpForm] = useState(false)
   const [otpId, setOtpId] = useState<string | null>(null)
   const [userEmail, setUserEmail] = useState<string>("")
   const [isLoadingOtp, setIsLoadingOtp] = useState(false)
+  // Password-free sign-in chosen by the user while the backend also allows passwords
+  const [useEmailCode, setUseEmailCode] = useState(false)
 
+  // A challenge may already be pending, e.g. right after registering on an MFA-enabled backend
   useEffect(() => {
-    // Check if token exists in PocketBase's auth store
-    const hasToken = pb.authStore.isValid
-
-    if (hasToken && pb.authStore.model) {
-      // Set existing user data for the "Continue as" button
-      setExistingUser({
-        name: pb.authStore.model.name || pb.authStore.model.email,
-        email: pb.authStore.model.email,
+    if (mfaChallenge?.email && !showOtpForm) {
+      sendOtp(mfaChallenge.email).catch(() => {
+        setError("Failed to send verification code. Please try again.")
       })
-    } else {
-      setExistingUser(null)
     }
+    // Only on mount: later challenges are handled by onSubmit
   }, [])
 
+  const backendMode = getLoginMode(authMethods)
+  // Email codes are only offered as a standalone alternative when they aren't already the second factor
+  const canUseEmailCode = backendMode === "password" && Boolean(authMethods?.otp.enabled)
+  // An OAuth2 sign-in waiting for its second factor doesn't know the account's email, so it's asked for first
+  const isMfaEmailStep = Boolean(mfaChallenge && !mfaChallenge.email) && !showOtpForm
+  const mode: LoginMode = isMfaEmailStep || (useEmailCode && canUseEmailCode) ? "otp" : backendMode
+  const identityFields = useMemo(
+    () => (mode === "otp" ? ["email"] : getIdentityFields(authMethods)),
+    [mode, authMethods],
+  )
+  const identityLabel = getIdentityLabel(identityFields)
+  const loginSchema = useMemo(() => buildLoginSchema(mode, identityFields), [mode, identityFields])
+
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
-      email: "",
+      identity: "",
       password: "",
     },
   })
@@ -72,32 +115,64 @@ export function LoginForm() {
     },
   })
 
+  // Before a code is sent the cooldown follows the email being typed, then the one the code went to
+  const identity = form.watch("identity")
+  const otpCooldown = useCooldown("otp", showOtpForm || mode !== "otp" ? userEmail : identity)
+
   const onSubmit = async (data: LoginFormValues) => {
     setIsLoading(true)
     setError(null)
+    // Whether a failure is about sending the code rather than the credentials. Not read from mfaChallenge,
+    // which still holds the value from the render this handler was created in.
+    let isSendingCode = mode === "otp"
 
     try {
-      // First, try to authenticate with password
-      await pb.collection("users").authWithPassword(data.email, data.password)
+      // Email code only: no password to check, send the code straight away
+      if (mode === "otp") {
+        if (OTP_NEW_ACCOUNT_FLOW === "auto-create" && !mfaChallenge) {
+          await ensureOtpAccount(data.identity)
+        }
 
-      // If MFA is enabled, request OTP
-      setUserEmail(data.email)
-      const result = await pb.collection("users").requestOTP(data.email)
-      setOtpId(result.otpId)
+        await sendOtp(data.identity)
+        return
+      }
+
+      // First, authenticate with password. Nothing is stored yet if the backend asks for a second factor.
+      const challenge = await login(data.identity, data.password)
 
-      // Show OTP form
-      setShowOtpForm(true)
+      if (challenge?.email) {
+        // MFA is enabled, request the OTP that completes the challenge
+        isSendingCode = true
+        await sendOtp(challenge.email)
+      }
     } catch (err) {
-      if (err instanceof ClientResponseError) {
-        setError("Invalid username or password")
+      if (isSendingCode) {
+        setError(getErrorMessage(err, { messages: { 400: "Failed to send verification code. Please try again." } }))
       } else {
-        setError("An unexpected error occurred. Please try again.")
+        setError(
+          applyFormErrors(err, form, { messages: { 400: `Invalid ${identityLabel.toLowerCase()} or password` } }),
+        )
       }
     } finally {
       setIsLoading(false)
     }
   }
 
+  const sendOtp = async (email: string) => {
+    setUserEmail(email)
+    try {
+      const result = await pb.collection("users").requestOTP(email)
+      setOtpId(result.otpId)
+      startCooldown("otp", email)
+    } catch (err) {
+      startCooldownFromError("otp", email, err)
+      throw err
+    }
+
+    // Show OTP form
+    setShowOtpForm(true)
+  }
+
   const onOtpSubmit = async (data: OtpFormValues) => {
     if (!otpId) {
       setError("Authentication error. Please try again.")
@@ -108,17 +183,13 @@ export function LoginForm() {
     setError(null)
 
     try {
-      // Authenticate with the OTP
-      await pb.collection("users").authWithOTP(otpId, data.otp)
+      // Authenticate with the OTP, completing the MFA challenge if one is pending
+      await verifyOtp(otpId, data.otp)
 
       // Redirect to dashboard
       router.push("/dashboard")
     } catch (err) {
-      if (err instanceof ClientResponseError) {
-        setError(err.message)
-      } else {
-        setError("An unexpected error occurred. Please try again.")
-      }
+      setError(applyFormErrors(err, otpForm, { messages: { 400: "The code is invalid or has expired." } }))
     } finally {
       setIsLoadingOtp(false)
     }
@@ -133,26 +204,27 @@ export function LoginForm() {
     try {
       const result = await pb.collection("users").requestOTP(userEmail)
       setOtpId(result.otpId)
+      startCooldown("otp", userEmail)
       setError(null)
     } catch (err) {
-      if (err instanceof ClientResponseError) {
-        setError(err.message)
-      } else {
-        setError("Failed to resend verification code. Please try again.")
-      }
+      startCooldownFromError("otp", userEmail, err)
+      setError(getErrorMessage(err, { messages: { 400: "Failed to resend verification code. Please try again." } }))
     } finally {
       setIsLoadingOtp(false)
     }
   }
 
   const handleBackToLogin = () => {
+    cancelMfa()
     setShowOtpForm(false)
     setOtpId(null)
     setError(null)
   }
 
-  const handleContinueAsExistingUser = () => {
-    router.push("/dashboard")
+  const handleContinueAsExistingUser = (id: string) => {
+    if (!switchAccount(id)) {
+      setError("That session has expired. Please log in again.")
+    }
   }
 
   // Helper function to truncate name
@@ -161,17 +233,48 @@ export function LoginForm() {
     return name.substring(0, maxLength) + "..."
   }
 
+  const getDescription = () => {
+    if (isMfaEmailStep) return "Enter the email of your account and we'll send you a verification code"
+    if (showOtpForm) return "Enter the verification code sent to your email"
+    if (mode === "otp") return "Enter your email and we'll send you a sign-in code"
+    if (mode === "oauth2") return "Sign in with one of the providers below to access your dashboard"
+    return `Enter your ${identityLabel.toLowerCase()} and password to access your dashboard`
+  }
+
+  const oauthProviders = getOAuthProviders(authMethods)
+
+  if (isLoadingAuthMethods) {
+    return (
+      <Card className="w-full max-w-md mx-auto border border-black">
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-black" />
+        </CardContent>
+      </Card>
+    )
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto border border-black">
       <CardHeader className="border-b border-black">
-        <CardTitle className="text-2xl">{showOtpForm ? "Two-Factor Authentication" : "Login"}</CardTitle>
-        <CardDescription className="text-black">
-          {showOtpForm
-            ? "Enter the verification code sent to your email"
-            : "Enter your email and password to access your dashboard"}
-        </CardDescription>
+        <CardTitle className="text-2xl">
+          {showOtpForm || isMfaEmailStep
+            ? mfaChallenge
+              ? "Two-Factor Authentication"
+              : "Check Your Email"
+            : isAddingAccount
+              ? "Add Another Account"
+              : "Login"}
+        </CardTitle>
+        <CardDescription className="text-black">{getDescription()}</CardDescription>
       </CardHeader>
       <CardContent className="pt-6">
+        {logoutMessage && !error && !showOtpForm && !isMfaEmailStep && (
+          <Alert className="mb-4 border border-black bg-white text-black">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{logoutMessage}</AlertDescription>
+          </Alert>
+        )}
+
         {error && (
           <Alert variant="destructive" className="mb-4 border border-black bg-white text-black">
             <AlertCircle className="h-4 w-4" />
@@ -181,63 +284,115 @@ export function LoginForm() {
 
         {!showOtpForm ? (
           <>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-black">Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="your.email@example.com"
-                          {...field}
-                          className="border-black focus:ring-black"
-                        />
-                      </FormControl>
-                      <FormMessage className="text-black" />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-black">Password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="••••••••"
-                          {...field}
-                          className="border-black focus:ring-black"
-                        />
-                      </FormControl>
-                      <div className="flex justify-end">
-                        <Link href="/forgot-password" className="text-xs text-black underline underline-offset-4">
-                          Forgot password?
-                        </Link>
-                      </div>
-                      <FormMessage className="text-black" />
-                    </FormItem>
-                  )}
-                />
-                <Button type="submit" className="w-full bg-black text-white hover:bg-black/90" disabled={isLoading}>
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Logging in...
-                    </>
-                  ) : (
-                    "Login"
+            {mode !== "oauth2" && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="identity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-black">{identityLabel}</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={identityFields.includes("email") ? "your.email@example.com" : "your_username"}
+                            autoComplete={identityFields.includes("email") ? "email" : "username"}
+                            {...field}
+                            className="border-black focus:ring-black"
+                          />
+                        </FormControl>
+                        <FormMessage className="text-black" />
+                      </FormItem>
+                    )}
+                  />
+                  {mode !== "otp" && (
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-black">Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="••••••••"
+                              {...field}
+                              className="border-black focus:ring-black"
+                            />
+                          </FormControl>
+                          <div className="flex justify-end">
+                            <Link href="/forgot-password" className="text-xs text-black underline underline-offset-4">
+                              Forgot password?
+                            </Link>
+                          </div>
+                          <FormMessage className="text-black" />
+                        </FormItem>
+                      )}
+                    />
                   )}
+                  <CooldownButton
+                    type="submit"
+                    className="w-full bg-black text-white hover:bg-black/90"
+                    disabled={isLoading}
+                    remaining={mode === "otp" ? otpCooldown : 0}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        {mode === "otp" ? "Sending code..." : "Logging in..."}
+                      </>
+                    ) : mode === "otp" ? (
+                      "Email Me a Code"
+                    ) : (
+                      "Login"
+                    )}
+                  </CooldownButton>
+                </form>
+              </Form>
+            )}
+
+            {isMfaEmailStep && (
+              <div className="mt-4 flex justify-center">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={handleBackToLogin}
+                  className="text-black hover:bg-black/5"
+                  disabled={isLoading}
+                >
+                  Back to Login
                 </Button>
-              </form>
-            </Form>
+              </div>
+            )}
+
+            {canUseEmailCode && !isMfaEmailStep && (
+              <div className="mt-4 flex justify-center">
+                <Button
+                  type="button"
+                  variant="link"
+                  onClick={() => {
+                    setUseEmailCode(!useEmailCode)
+                    setError(null)
+                    form.clearErrors()
+                  }}
+                  className="text-sm text-black underline underline-offset-4"
+                >
+                  {useEmailCode ? "Use password instead" : "Email me a sign-in code"}
+                </Button>
+              </div>
+            )}
+
+            {/* A first OAuth2 sign-in creates the account, which would get around invite-only registration */}
+            {(REGISTRATION_MODE === "open" || mode === "oauth2") && !isMfaEmailStep && (
+              <OAuthButtons providers={oauthProviders} showDivider={mode !== "oauth2"} onError={setError} />
+            )}
+
+            {mode === "oauth2" && oauthProviders.length === 0 && (
+              <p className="text-center text-sm text-black">No sign-in methods are enabled on this server.</p>
+            )}
 
-            {/* Continue as existing user section */}
-            {existingUser && (
+            {/* Continue as one of the accounts already signed in on this browser */}
+            {accounts.length > 0 && !isMfaEmailStep && (
               <div className="mt-6">
                 <div className="relative flex items-center justify-center">
                   <div className="absolute inset-0 flex items-center">
@@ -246,14 +401,19 @@ export function LoginForm() {
                   <div className="relative bg-white px-4 text-sm text-black">or</div>
                 </div>
 
-                <Button
-                  onClick={handleContinueAsExistingUser}
-                  variant="outline"
-                  className="w-full mt-4 border-black text-black hover:bg-black/5"
-                >
-                  Continue as {truncateName(existingUser.name)}
-                  <ArrowRight className="ml-2 h-4 w-4" />
-                </Button>
+                <div className="mt-4 space-y-2">
+                  {accounts.map((account) => (
+                    <Button
+                      key={account.id}
+                      onClick={() => handleContinueAsExistingUser(account.id)}
+                      variant="outline"
+                      className="w-full border-black text-black hover:bg-black/5"
+                    >
+                      Continue as {truncateName(account.name || account.email)}
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  ))}
+                </div>
               </div>
             )}
           </>
@@ -313,20 +473,33 @@ export function LoginForm() {
               >
                 Back to Login
               </Button>
-              <Button
+              <CooldownButton
                 variant="ghost"
                 onClick={handleResendOtp}
                 className="text-black hover:bg-black/5"
                 disabled={isLoadingOtp}
+                remaining={otpCooldown}
               >
                 Resend Code
-              </Button>
+              </CooldownButton>
             </div>
           </div>
         )}
       </CardContent>
       <CardFooter className="flex justify-center border-t border-black py-4">
-        {!showOtpForm && (
+        {/* Whether the email has an account isn't revealed, so first-time visitors are pointed to registration here */}
+        {showOtpForm && mode === "otp" && !mfaChallenge && OTP_NEW_ACCOUNT_FLOW === "register" && (
+          <p className="text-sm text-black text-center">
+            No code? You may not have an account yet.{" "}
+            <Link
+              href={`/register?email=${encodeURIComponent(userEmail)}`}
+              className="text-black font-bold underline underline-offset-4"
+            >
+              Register
+            </Link>
+          </p>
+        )}
+        {!showOtpForm && !isMfaEmailStep && (
           <p className="text-sm text-black">
             Don't have an account?{" "}
             <Link href="/register" className="text-black font-bold underline underline-offset-4">
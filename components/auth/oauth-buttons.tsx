@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { ClientResponseError, type AuthProviderInfo } from "pocketbase"
+import { Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/context/auth-context"
+import { startOAuthRedirect } from "@/lib/oauth"
+
+interface OAuthButtonsProps {
+  // Providers enabled on the backend, see getOAuthProviders
+  providers: AuthProviderInfo[]
+  // Show the "or" separator above the buttons when they follow another form
+  showDivider?: boolean
+  // "popup" keeps the app open in a popup window, "redirect" leaves the app and returns to /oauth-callback
+  flow?: "popup" | "redirect"
+  onError?: (message: string) => void
+}
+
+// Default flow, configurable per deployment
+const DEFAULT_FLOW = process.env.NEXT_PUBLIC_OAUTH2_FLOW === "redirect" ? "redirect" : "popup"
+
+export function OAuthButtons({ providers, showDivider = true, flow = DEFAULT_FLOW, onError }: OAuthButtonsProps) {
+  const { loginWithOAuth2 } = useAuth()
+  const router = useRouter()
+  const pathname = usePathname()
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null)
+
+  if (providers.length === 0) {
+    return null
+  }
+
+  const handleSignIn = async (provider: AuthProviderInfo) => {
+    setPendingProvider(provider.name)
+
+    if (flow === "redirect") {
+      startOAuthRedirect(provider)
+      return
+    }
+
+    try {
+      const challenge = await loginWithOAuth2(provider)
+      // The login page asks for the second factor, e.g. when signing in from the registration page
+      if (challenge && pathname !== "/login") {
+        router.push("/login")
+      }
+    } catch (err) {
+      if (err instanceof ClientResponseError && err.isAbort) {
+        // The popup was closed before finishing
+      } else if (err instanceof ClientResponseError) {
+        onError?.(err.message)
+      } else {
+        onError?.("An unexpected error occurred. Please try again.")
+      }
+    } finally {
+      setPendingProvider(null)
+    }
+  }
+
+  return (
+    <div className={showDivider ? "mt-6" : undefined}>
+      {showDivider && (
+        <div className="relative flex items-center justify-center">
+          <div className="absolute inset-0 flex items-center">
+            <div className="w-full border-t border-black"></div>
+          </div>
+          <div className="relative bg-white px-4 text-sm text-black">or</div>
+        </div>
+      )}
+
+      <div className={showDivider ? "mt-4 space-y-2" : "space-y-2"}>
+        {providers.map((provider) => (
+          <Button
+            key={provider.name}
+            type="button"
+            variant="outline"
+            onClick={() => handleSignIn(provider)}
+            className="w-full border-black text-black hover:bg-black/5"
+            disabled={pendingProvider !== null}
+          >
+            {pendingProvider === provider.name && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Continue with {provider.displayName}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import { useMemo } from "react"
+import { STRENGTH_LABELS, checkPassword, type PersonalInfo } from "@/lib/password-policy"
+
+interface PasswordStrengthMeterProps {
+  password: string
+  personalInfo?: PersonalInfo
+}
+
+// Live strength feedback shown under new-password fields
+export function PasswordStrengthMeter({ password, personalInfo }: PasswordStrengthMeterProps) {
+  const email = personalInfo?.email
+  const name = personalInfo?.name
+  const { score, errors } = useMemo(() => checkPassword(password, { email, name }), [password, email, name])
+
+  if (!password) return null
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {STRENGTH_LABELS.map((label, index) => (
+          <div key={label} className={`h-1.5 flex-1 rounded-full ${index <= score ? "bg-black" : "bg-black/10"}`} />
+        ))}
+      </div>
+      <p className="text-sm text-black">
+        Strength: <span className="font-medium">{STRENGTH_LABELS[score]}</span>
+        {errors.length > 0 && <span className="text-black/60"> · {errors[0]}</span>}
+      </p>
+    </div>
+  )
+}
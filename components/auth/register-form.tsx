@@ -1,28 +1,35 @@
 "use client"
 
-import { useState } from "react"
-import { useRouter } from "next/navigation"
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { z } from "zod"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { ClientResponseError } from "pocketbase"
-import { AlertCircle, Loader2 } from "lucide-react"
+import { AlertCircle, Loader2, MailX } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { OAuthButtons } from "@/components/auth/oauth-buttons"
+import { PasswordStrengthMeter } from "@/components/auth/password-strength-meter"
 import { useAuth } from "@/context/auth-context"
+import { useAuthMethods } from "@/hooks/use-auth-methods"
+import { getOAuthProviders } from "@/lib/auth-methods"
+import { applyFormErrors } from "@/lib/form-errors"
+import { INVITE_PARAM, REGISTRATION_MODE, checkInvite, type Invite } from "@/lib/invites"
+import { refinePassword } from "@/lib/password-policy"
 
 const registerSchema = z
   .object({
     name: z.string().min(2, { message: "Name must be at least 2 characters" }),
     email: z.string().email({ message: "Please enter a valid email address" }),
-    password: z.string().min(8, { message: "Password must be at least 8 characters" }),
-    passwordConfirm: z.string().min(8, { message: "Password must be at least 8 characters" }),
+    password: z.string(),
+    passwordConfirm: z.string(),
   })
+  .superRefine((data, ctx) => refinePassword(ctx, data.password, { email: data.email, name: data.name }))
   .refine((data) => data.password === data.passwordConfirm, {
     message: "Passwords do not match",
     path: ["passwordConfirm"],
@@ -33,46 +40,105 @@ type RegisterFormValues = z.infer<typeof registerSchema>
 export function RegisterForm() {
   const { register } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const { authMethods } = useAuthMethods()
+  const inviteCode = searchParams.get(INVITE_PARAM)
+  const [invite, setInvite] = useState<Invite | null>(null)
+  const [inviteError, setInviteError] = useState<string | null>(null)
+  const [isCheckingInvite, setIsCheckingInvite] = useState(Boolean(inviteCode))
 
   const form = useForm<RegisterFormValues>({
     resolver: zodResolver(registerSchema),
     defaultValues: {
       name: "",
-      email: "",
+      // Pre-filled when arriving from the email code sign-in
+      email: searchParams.get("email") || "",
       password: "",
       passwordConfirm: "",
     },
   })
 
+  // Check the invite before showing the form, and lock the email to the address it was sent to
+  useEffect(() => {
+    if (!inviteCode) return
+
+    checkInvite(inviteCode)
+      .then((result) => {
+        setInvite(result.invite)
+        setInviteError(result.error)
+        if (result.invite?.email) form.setValue("email", result.invite.email)
+      })
+      .catch(() => setInviteError("We couldn't check your invite. Please try again."))
+      .finally(() => setIsCheckingInvite(false))
+  }, [inviteCode, form])
+
   const onSubmit = async (data: RegisterFormValues) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      await register(data.email, data.password, data.passwordConfirm, data.name)
-      router.push("/dashboard")
+      const challenge = await register(data.email, data.password, data.passwordConfirm, data.name, invite?.id)
+      // With MFA enabled the new account still needs its email code, which the login page asks for
+      router.push(challenge ? "/login" : "/dashboard")
     } catch (err) {
-      if (err instanceof ClientResponseError) {
-        // Check for the specific email already exists error
-        if (err.response?.data?.email?.message === "This email already exists.") {
-          setError("This email already exists.")
-        } else if (err.response?.data?.email?.message) {
-          // Handle other email-related errors
-          setError(err.response.data.email.message)
-        } else {
-          // Handle other errors
-          setError(err.message)
-        }
-      } else {
-        setError("An unexpected error occurred. Please try again.")
-      }
+      // Validation errors such as a taken email are shown on their fields
+      setError(applyFormErrors(err, form))
     } finally {
       setIsLoading(false)
     }
   }
 
+  if (isCheckingInvite) {
+    return (
+      <Card className="w-full max-w-md mx-auto border border-black">
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-black" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (inviteError || (REGISTRATION_MODE === "invite" && !invite)) {
+    return (
+      <Card className="w-full max-w-md mx-auto border border-black">
+        <CardHeader className="border-b border-black">
+          <CardTitle className="text-2xl">{inviteError ? "Invite Unavailable" : "Invitation Required"}</CardTitle>
+          <CardDescription className="text-black">
+            {inviteError || "Accounts can only be created from an invite link. Ask a member to invite you."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="flex flex-col items-center justify-center p-6 border border-black text-center space-y-4">
+            <MailX className="h-12 w-12 text-black" />
+            <p className="text-black">
+              {REGISTRATION_MODE === "invite" ? (
+                "Ask the person who invited you for a new link."
+              ) : (
+                <>
+                  You can still{" "}
+                  <Link href="/register" className="font-bold underline underline-offset-4">
+                    register without an invite
+                  </Link>
+                  .
+                </>
+              )}
+            </p>
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-center border-t border-black py-4">
+          <p className="text-sm text-black">
+            Already have an account?{" "}
+            <Link href="/login" className="text-black font-bold underline underline-offset-4">
+              Login
+            </Link>
+          </p>
+        </CardFooter>
+      </Card>
+    )
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto border border-black">
       <CardHeader className="border-b border-black">
@@ -108,8 +174,14 @@ export function RegisterForm() {
                 <FormItem>
                   <FormLabel className="text-black">Email</FormLabel>
                   <FormControl>
-                    <Input placeholder="your.email@example.com" {...field} className="border-black focus:ring-black" />
+                    <Input
+                      placeholder="your.email@example.com"
+                      {...field}
+                      readOnly={Boolean(invite?.email)}
+                      className="border-black focus:ring-black read-only:bg-black/5"
+                    />
                   </FormControl>
+                  {invite?.email && <FormDescription>Your invite was sent to this address.</FormDescription>}
                   <FormMessage className="text-black" />
                 </FormItem>
               )}
@@ -128,6 +200,10 @@ export function RegisterForm() {
                       className="border-black focus:ring-black"
                     />
                   </FormControl>
+                  <PasswordStrengthMeter
+                    password={field.value}
+                    personalInfo={{ email: form.watch("email"), name: form.watch("name") }}
+                  />
                   <FormMessage className="text-black" />
                 </FormItem>
               )}
@@ -162,6 +238,9 @@ export function RegisterForm() {
             </Button>
           </form>
         </Form>
+
+        {/* OAuth sign-ups can't carry the invite, so they're only offered when registration is open */}
+        {REGISTRATION_MODE === "open" && <OAuthButtons providers={getOAuthProviders(authMethods)} onError={setError} />}
       </CardContent>
       <CardFooter className="flex justify-center border-t border-black py-4">
         <p className="text-sm text-black">
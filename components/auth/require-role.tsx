@@ -0,0 +1,30 @@
+"use client"
+
+import type React from "react"
+
+import { useAuth } from "@/context/auth-context"
+import { useRole } from "@/hooks/use-role"
+import type { Permission, Role } from "@/lib/roles"
+import { Forbidden } from "@/components/auth/forbidden"
+
+interface RequireRoleProps {
+  // Lowest role allowed to see the children
+  role?: Role
+  // Permission needed to see the children, checked along with the role when both are given
+  permission?: Permission
+  // Rendered instead of the children when access is denied, the 403 message by default
+  fallback?: React.ReactNode
+  children: React.ReactNode
+}
+
+// Only render the children for accounts with the given role or permission.
+// This hides UI only: the collection API rules are what actually protect the data.
+export function RequireRole({ role, permission, fallback = <Forbidden />, children }: RequireRoleProps) {
+  const { isLoading } = useAuth()
+  const { hasRole, can } = useRole()
+
+  if (isLoading) return null
+
+  const isAllowed = (!role || hasRole(role)) && (!permission || can(permission))
+  return <>{isAllowed ? children : fallback}</>
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import * as React from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button, type ButtonProps } from "@/components/ui/button"
+import { formatCooldown } from "@/lib/cooldown"
+import { cn } from "@/lib/utils"
+
+interface CooldownButtonProps extends ButtonProps {
+  // Seconds left from useCooldown, the button is disabled while above 0
+  remaining: number
+  containerClassName?: string
+}
+
+// Button for requests that send an email or code, with the time left before it can be sent again
+export const CooldownButton = React.forwardRef<HTMLButtonElement, CooldownButtonProps>(
+  ({ remaining, disabled, containerClassName, ...props }, ref) => {
+    return (
+      <div className={cn("relative", containerClassName)}>
+        <Button ref={ref} disabled={disabled || remaining > 0} {...props} />
+        {remaining > 0 && (
+          <Badge
+            variant="default"
+            aria-label={`Available again in ${formatCooldown(remaining)}`}
+            className="absolute -top-3 -right-3 bg-black text-white px-2 py-1 rounded-full min-w-[28px] h-[28px] flex items-center justify-center"
+          >
+            {formatCooldown(remaining)}
+          </Badge>
+        )}
+      </div>
+    )
+  },
+)
+CooldownButton.displayName = "CooldownButton"
@@ -0,0 +1,63 @@
+"use client"
+
+import { Check, LogOut, UserPlus } from "lucide-react"
+import { useAuth } from "@/context/auth-context"
+import { UserAvatar } from "@/components/user-avatar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+export function AccountSwitcher() {
+  const { user, accounts, switchAccount, addAccount, signOutAccount } = useAuth()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="relative rounded-full">
+          <UserAvatar user={user} />
+          <span className="sr-only">Switch account</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 border-black">
+        <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+        {accounts.map((account) => (
+          <DropdownMenuItem
+            key={account.id}
+            onSelect={() => {
+              if (account.id !== user?.id) switchAccount(account.id)
+            }}
+            className="flex items-center gap-2"
+          >
+            <Check className={`h-4 w-4 ${account.id === user?.id ? "opacity-100" : "opacity-0"}`} />
+            <UserAvatar user={account} className="h-6 w-6" />
+            <div className="flex min-w-0 flex-1 flex-col">
+              <span className="truncate text-sm font-medium">{account.name || account.email}</span>
+              {account.name && <span className="truncate text-xs text-black/60">{account.email}</span>}
+            </div>
+            <button
+              onClick={(event) => {
+                // Don't switch to the account that is being signed out of
+                event.stopPropagation()
+                signOutAccount(account.id)
+              }}
+              className="rounded-sm p-1 text-black hover:bg-black/10"
+            >
+              <LogOut className="h-4 w-4" />
+              <span className="sr-only">Sign out of {account.email}</span>
+            </button>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={addAccount}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Add another account
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
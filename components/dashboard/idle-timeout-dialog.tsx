@@ -0,0 +1,68 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { useAuth } from "@/context/auth-context"
+import { useIdleTimeout } from "@/hooks/use-idle-timeout"
+import { pb } from "@/lib/pocketbase"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+export function IdleTimeoutDialog() {
+  const { logout } = useAuth()
+  const { secondsLeft, stayActive } = useIdleTimeout(() => logout("idle"))
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const handleStaySignedIn = async () => {
+    setIsRefreshing(true)
+
+    try {
+      // Extend the session on the backend as well, not just the local idle timer
+      await pb.collection("users").authRefresh()
+      stayActive()
+    } catch (error) {
+      console.error("Failed to extend session:", error)
+      logout("session-expired")
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={secondsLeft !== null}>
+      <AlertDialogContent className="border border-black">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription className="text-black">
+            You will be logged out in <strong>{secondsLeft}s</strong> due to inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => logout()}
+            className="border-black text-black hover:bg-black/5"
+            disabled={isRefreshing}
+          >
+            Log out
+          </Button>
+          <Button
+            onClick={handleStaySignedIn}
+            className="bg-black text-white hover:bg-black/90"
+            disabled={isRefreshing}
+          >
+            {isRefreshing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Stay signed in
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { format } from "date-fns"
+import { getTokenPayload } from "pocketbase"
+import { Eye, LogOut } from "lucide-react"
+import { useAuth } from "@/context/auth-context"
+import { pb } from "@/lib/pocketbase"
+import { Button } from "@/components/ui/button"
+
+// Shown for as long as a superuser views the app as another user, so the mode can't be mistaken for a normal session
+export function ImpersonationBanner() {
+  const { impersonation, stopImpersonation } = useAuth()
+
+  if (!impersonation) {
+    return null
+  }
+
+  const { name, email } = impersonation.target
+  const expiresAt = (getTokenPayload(pb.authStore.token).exp || 0) * 1000
+
+  return (
+    <div
+      role="status"
+      className="flex flex-col gap-2 border-b border-black bg-black px-4 py-2 text-white sm:flex-row sm:items-center sm:justify-between md:px-6"
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as <span className="font-bold">{name ? `${name} (${email})` : email}</span>
+          {expiresAt > 0 && <span className="text-white/70"> · ends at {format(expiresAt, "p")}</span>}
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={stopImpersonation}
+        className="border-white bg-black text-white hover:bg-white hover:text-black"
+      >
+        <LogOut className="mr-2 h-4 w-4" />
+        Exit impersonation
+      </Button>
+    </div>
+  )
+}
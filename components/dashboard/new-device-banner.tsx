@@ -0,0 +1,44 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ShieldAlert, X } from "lucide-react"
+import { takeNewDeviceAlert } from "@/lib/login-events"
+import { describeUserAgent } from "@/lib/sessions"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+
+export function NewDeviceBanner() {
+  const [isVisible, setIsVisible] = useState(false)
+
+  useEffect(() => {
+    setIsVisible(takeNewDeviceAlert())
+  }, [])
+
+  if (!isVisible) {
+    return null
+  }
+
+  return (
+    <Alert className="rounded-none border-x-0 border-t-0 border-b border-black bg-white text-black">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>New sign-in from {describeUserAgent(navigator.userAgent)}</AlertTitle>
+      <AlertDescription className="pr-8">
+        This is the first time your account was used on this device. If this wasn't you, review your{" "}
+        <Link href="/dashboard/settings" className="font-bold underline underline-offset-4">
+          active sessions
+        </Link>{" "}
+        and change your password.
+      </AlertDescription>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsVisible(false)}
+        className="absolute right-2 top-2 h-8 w-8 text-black hover:bg-black/5"
+      >
+        <X className="h-4 w-4" />
+        <span className="sr-only">Dismiss</span>
+      </Button>
+    </Alert>
+  )
+}
@@ -2,69 +2,98 @@
 
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { LayoutDashboard, Settings } from "lucide-react"
+import { Building2, LayoutDashboard, Settings, Users } from "lucide-react"
+import type { LucideIcon } from "lucide-react"
+import { useRole } from "@/hooks/use-role"
+import type { Permission } from "@/lib/roles"
 import { cn } from "@/lib/utils"
+import { WorkspaceSwitcher } from "@/components/dashboard/workspace-switcher"
 
-const navItems = [
+type NavItem = {
+  title: string
+  icon: LucideIcon
+  href: string
+  // Only shown to roles with this permission
+  permission: Permission
+}
+
+const navItems: NavItem[] = [
   {
     title: "Dashboard",
     icon: LayoutDashboard,
     href: "/dashboard",
+    permission: "dashboard:view",
+  },
+  {
+    title: "Workspaces",
+    icon: Building2,
+    href: "/dashboard/workspaces",
+    permission: "dashboard:view",
+  },
+  {
+    title: "Users",
+    icon: Users,
+    href: "/dashboard/admin/users",
+    permission: "users:manage",
   },
 ]
 
-const bottomNavItems = [
+const bottomNavItems: NavItem[] = [
   {
     title: "Settings",
     icon: Settings,
     href: "/dashboard/settings",
+    permission: "settings:view",
   },
 ]
 
 export function Sidebar() {
   const pathname = usePathname()
+  const { can } = useRole()
 
   return (
     <div className="flex flex-col h-full">
-      <div className="flex h-16 items-center border-b border-black px-6">
-        <Link href="/dashboard" className="flex items-center gap-2">
-          <span className="text-xl font-semibold tracking-tight text-black">DASHBOARD</span>
-        </Link>
+      <div className="flex h-16 items-center border-b border-black px-4">
+        <WorkspaceSwitcher />
       </div>
 
       <div className="flex-1 overflow-auto py-4">
         <nav className="space-y-1 px-2">
-          {navItems.map((item) => (
-            <Link
-              key={item.href}
-              href={item.href}
-              className={cn(
-                "flex items-center gap-3 rounded-md px-3 py-2 text-sm transition-colors",
-                pathname === item.href ? "bg-black text-white" : "text-black hover:bg-black/5",
-              )}
-            >
-              <item.icon className="h-5 w-5" />
-              <span>{item.title}</span>
-            </Link>
-          ))}
+          {navItems
+            .filter((item) => can(item.permission))
+            .map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-3 py-2 text-sm transition-colors",
+                  pathname === item.href ? "bg-black text-white" : "text-black hover:bg-black/5",
+                )}
+              >
+                <item.icon className="h-5 w-5" />
+                <span>{item.title}</span>
+              </Link>
+            ))}
         </nav>
       </div>
 
       <div className="border-t border-black py-4">
         <nav className="space-y-1 px-2">
-          {bottomNavItems.map((item) => (
-            <Link
-              key={item.href}
-              href={item.href}
-              className={cn(
-                "flex items-center gap-3 rounded-md px-3 py-2 text-sm transition-colors",
-                pathname === item.href ? "bg-black text-white" : "text-black hover:bg-black/5",
-              )}
-            >
-              <item.icon className="h-5 w-5" />
-              <span>{item.title}</span>
-            </Link>
-          ))}
+          {bottomNavItems
+            .filter((item) => can(item.permission))
+            .map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-3 py-2 text-sm transition-colors",
+                  pathname === item.href ? "bg-black text-white" : "text-black hover:bg-black/5",
+                )}
+              >
+                <item.icon className="h-5 w-5" />
+                <span>{item.title}</span>
+              </Link>
+            ))}
         </nav>
       </div>
     </div>
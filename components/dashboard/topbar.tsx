@@ -25,7 +25,7 @@ export function Topbar({ onToggleSidebar }: TopbarProps) {
             Welcome, {user.name || user.email}
           </span>
         )}
-        <Button variant="ghost" size="icon" onClick={logout}>
+        <Button variant="ghost" size="icon" onClick={() => logout()}>
           <LogOut className="h-5 w-5" />
           <span className="sr-only">Logout</span>
         </Button>
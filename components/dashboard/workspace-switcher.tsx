@@ -0,0 +1,73 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Building2, Check, ChevronsUpDown, Loader2, Plus, Settings } from "lucide-react"
+import { useWorkspace } from "@/context/workspace-context"
+import { WORKSPACE_ROLE_LABELS } from "@/lib/workspaces"
+import { CreateWorkspaceDialog } from "@/components/workspaces/create-workspace-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+export function WorkspaceSwitcher() {
+  const { memberships, activeWorkspace, activeRole, isLoading, switchWorkspace } = useWorkspace()
+  const [showCreate, setShowCreate] = useState(false)
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex w-full items-center gap-3 rounded-md px-2 py-1.5 text-left hover:bg-black/5">
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-black text-white">
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Building2 className="h-4 w-4" />}
+            </div>
+            <div className="flex min-w-0 flex-1 flex-col">
+              <span className="truncate text-sm font-semibold text-black">
+                {activeWorkspace?.name || (isLoading ? "Loading..." : "No workspace")}
+              </span>
+              {activeRole && (
+                <span className="truncate text-xs text-black/60">{WORKSPACE_ROLE_LABELS[activeRole]}</span>
+              )}
+            </div>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 text-black/60" />
+            <span className="sr-only">Switch workspace</span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60 border-black">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {memberships.map((membership) => (
+            <DropdownMenuItem
+              key={membership.id}
+              onSelect={() => switchWorkspace(membership.workspace)}
+              className="flex items-center gap-2"
+            >
+              <Check
+                className={`h-4 w-4 ${membership.workspace === activeWorkspace?.id ? "opacity-100" : "opacity-0"}`}
+              />
+              <span className="truncate">{membership.expand?.workspace.name}</span>
+            </DropdownMenuItem>
+          ))}
+          {memberships.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={() => setShowCreate(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create workspace
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/dashboard/workspaces">
+              <Settings className="mr-2 h-4 w-4" />
+              Manage workspaces
+            </Link>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateWorkspaceDialog open={showCreate} onOpenChange={setShowCreate} />
+    </>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, ZoomIn, ZoomOut } from "lucide-react"
+
+import { renderAvatar, type CropArea } from "@/lib/avatar"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+// Side of the square crop viewport, in CSS pixels
+const VIEWPORT_SIZE = 256
+const MAX_ZOOM = 3
+
+type Offset = {
+  x: number
+  y: number
+}
+
+interface AvatarCropDialogProps {
+  // The picked image; the dialog is open while it is set
+  file: File | null
+  onCancel: () => void
+  onConfirm: (image: Blob) => Promise<void>
+}
+
+export function AvatarCropDialog({ file, onCancel, onConfirm }: AvatarCropDialogProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 })
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const dragStart = useRef<{ pointer: Offset; offset: Offset } | null>(null)
+
+  // Load the picked file, starting centered and zoomed out
+  useEffect(() => {
+    setImage(null)
+    setZoom(1)
+    setOffset({ x: 0, y: 0 })
+    setError(null)
+    if (!file) return
+
+    const url = URL.createObjectURL(file)
+    const element = new Image()
+    element.onload = () => setImage(element)
+    element.onerror = () => setError("This image couldn't be read. Please choose another one.")
+    element.src = url
+
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  // Scale at which the image's shorter side fills the viewport, times the zoom
+  const scale = image ? (VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight)) * zoom : 1
+  const displayWidth = image ? image.naturalWidth * scale : VIEWPORT_SIZE
+  const displayHeight = image ? image.naturalHeight * scale : VIEWPORT_SIZE
+
+  // Keep the image covering the whole viewport
+  const clampOffset = (next: Offset, width = displayWidth, height = displayHeight): Offset => {
+    const maxX = (width - VIEWPORT_SIZE) / 2
+    const maxY = (height - VIEWPORT_SIZE) / 2
+    return {
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    }
+  }
+
+  const handleZoomChange = (nextZoom: number) => {
+    if (!image) return
+    const ratio = nextZoom / zoom
+    setZoom(nextZoom)
+    setOffset((current) =>
+      clampOffset({ x: current.x * ratio, y: current.y * ratio }, displayWidth * ratio, displayHeight * ratio),
+    )
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragStart.current = { pointer: { x: event.clientX, y: event.clientY }, offset }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return
+    const { pointer, offset: startOffset } = dragStart.current
+    setOffset(
+      clampOffset({
+        x: startOffset.x + event.clientX - pointer.x,
+        y: startOffset.y + event.clientY - pointer.y,
+      }),
+    )
+  }
+
+  const handlePointerUp = () => {
+    dragStart.current = null
+  }
+
+  const handleSave = async () => {
+    if (!image) return
+
+    // Map the viewport back onto the source image
+    const area: CropArea = {
+      x: ((displayWidth - VIEWPORT_SIZE) / 2 - offset.x) / scale,
+      y: ((displayHeight - VIEWPORT_SIZE) / 2 - offset.y) / scale,
+      size: VIEWPORT_SIZE / scale,
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      await onConfirm(await renderAvatar(image, area))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save your avatar. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && !isSaving && onCancel()}>
+      <DialogContent className="border border-black sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Crop your avatar</DialogTitle>
+          <DialogDescription className="text-black">Drag the image to position it and zoom to fit.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative cursor-move touch-none overflow-hidden rounded-full border border-black bg-black/5"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {image ? (
+              <img
+                src={image.src}
+                alt="Avatar preview"
+                draggable={false}
+                className="pointer-events-none absolute left-1/2 top-1/2 max-w-none select-none"
+                style={{
+                  width: displayWidth,
+                  height: displayHeight,
+                  transform: `translate(calc(-50% + ${offset.x}px), calc(-50% + ${offset.y}px))`,
+                }}
+              />
+            ) : (
+              !error && (
+                <div className="flex h-full items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-black" />
+                </div>
+              )
+            )}
+          </div>
+
+          <div className="flex w-full items-center gap-3">
+            <ZoomOut className="h-4 w-4 shrink-0 text-black" />
+            <Slider
+              value={[zoom]}
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              onValueChange={([value]) => handleZoomChange(value)}
+              disabled={!image}
+              aria-label="Zoom"
+            />
+            <ZoomIn className="h-4 w-4 shrink-0 text-black" />
+          </div>
+
+          {error && <p className="text-sm text-black">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            className="border-black text-black hover:bg-black/5"
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-black text-white hover:bg-black/90" disabled={!image || isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save avatar"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { AlertCircle, Loader2, Trash2, Upload } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { AVATAR_ACCEPTED_TYPES, removeAvatar, uploadAvatar, validateAvatarFile } from "@/lib/avatar"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { UserAvatar } from "@/components/user-avatar"
+import { AvatarCropDialog } from "@/components/settings/avatar-crop-dialog"
+
+export function AvatarEditor() {
+  const { user } = useAuth()
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isRemoving, setIsRemoving] = useState(false)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  if (!user) return null
+
+  const selectFile = (file: File | undefined) => {
+    if (!file) return
+
+    const error = validateAvatarFile(file)
+    if (error) {
+      setStatus({ success: false, message: error })
+      return
+    }
+
+    setStatus(null)
+    setSelectedFile(file)
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    selectFile(event.dataTransfer.files[0])
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFile(event.target.files?.[0])
+    // Allow picking the same file again after cancelling
+    event.target.value = ""
+  }
+
+  const handleUpload = async (image: Blob) => {
+    await uploadAvatar(user.id, image)
+    setSelectedFile(null)
+    setStatus({ success: true, message: "Avatar updated successfully!" })
+  }
+
+  const handleRemove = async () => {
+    setIsRemoving(true)
+    setStatus(null)
+
+    try {
+      await removeAvatar(user.id)
+      setStatus({ success: true, message: "Avatar removed." })
+    } catch (error) {
+      console.error("Failed to remove avatar:", error)
+      setStatus({ success: false, message: "Failed to remove your avatar. Please try again." })
+    } finally {
+      setIsRemoving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {status && (
+        <Alert variant={status.success ? "default" : "destructive"} className="border border-black bg-white text-black">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{status.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-6">
+        <UserAvatar user={user} size="lg" className="h-24 w-24 text-3xl" />
+
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === " ") inputRef.current?.click()
+          }}
+          onDragOver={(event) => {
+            event.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-1 cursor-pointer flex-col items-center justify-center gap-1 rounded-md border border-dashed border-black p-4 text-center text-sm text-black transition-colors ${
+            isDragging ? "bg-black/10" : "hover:bg-black/5"
+          }`}
+        >
+          <Upload className="h-5 w-5" />
+          <span className="font-medium">Drop an image here or click to browse</span>
+          <span className="text-black/60">JPEG, PNG, WebP or GIF, up to 10 MB</span>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={AVATAR_ACCEPTED_TYPES.join(",")}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {user.avatar && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleRemove}
+          className="border-black text-black hover:bg-black/5"
+          disabled={isRemoving}
+        >
+          {isRemoving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+          Remove avatar
+        </Button>
+      )}
+
+      <AvatarCropDialog file={selectedFile} onCancel={() => setSelectedFile(null)} onConfirm={handleUpload} />
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { AlertCircle, Download, Loader2 } from "lucide-react"
+
+import { OWNED_COLLECTIONS } from "@/lib/account-data"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+type SaveFilePicker = (options: {
+  suggestedName: string
+  types: { description: string; accept: Record<string, string[]> }[]
+}) => Promise<FileSystemFileHandle>
+
+const EXPORT_URL = "/api/export"
+
+// Ask where to save the archive so it can be written to disk as it arrives, with our own progress.
+// Returns null where the browser doesn't support it, and the browser downloads the archive itself instead.
+const openSaveFile = async (fileName: string) => {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+  if (!showSaveFilePicker) return null
+
+  const handle = await showSaveFilePicker({
+    suggestedName: fileName,
+    types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+  })
+  return handle.createWritable()
+}
+
+// Let the browser stream the archive to disk, showing the progress in its own downloads
+const startBrowserDownload = (fileName: string) => {
+  const link = document.createElement("a")
+  link.href = EXPORT_URL
+  link.download = fileName
+  link.click()
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function DataExportCard() {
+  const [isExporting, setIsExporting] = useState(false)
+  // Bytes received so far; the archive is generated while it downloads, so its final size isn't known
+  const [received, setReceived] = useState<number | null>(null)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  const handleExport = async () => {
+    const fileName = `data-export-${format(new Date(), "yyyy-MM-dd")}.zip`
+
+    setStatus(null)
+    setReceived(null)
+
+    let saveFile: FileSystemWritableFileStream | null
+    try {
+      // The file picker has to open straight from the click, before anything is downloaded
+      saveFile = await openSaveFile(fileName)
+    } catch (error) {
+      // The user closed the picker
+      if (error instanceof DOMException && error.name === "AbortError") return
+      saveFile = null
+    }
+
+    if (!saveFile) {
+      startBrowserDownload(fileName)
+      setStatus({ success: true, message: "Your data export is downloading, your browser shows its progress." })
+      return
+    }
+
+    setIsExporting(true)
+
+    try {
+      const response = await fetch(EXPORT_URL)
+      if (!response.ok || !response.body) {
+        throw new Error(`Export failed (${response.status})`)
+      }
+
+      let receivedBytes = 0
+      setReceived(receivedBytes)
+
+      const body = response.body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            receivedBytes += chunk.byteLength
+            setReceived(receivedBytes)
+            controller.enqueue(chunk)
+          },
+        }),
+      )
+
+      await body.pipeTo(saveFile)
+
+      setStatus({ success: true, message: "Your data export has been downloaded." })
+    } catch (error) {
+      console.error("Failed to export data:", error)
+      await saveFile.abort().catch(() => {})
+      setStatus({ success: false, message: "Failed to export your data. Please try again." })
+    } finally {
+      setIsExporting(false)
+      setReceived(null)
+    }
+  }
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Export Your Data</CardTitle>
+        <CardDescription className="text-black">
+          Download a ZIP archive with everything we store about you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        <div className="text-sm text-black">
+          <p>The archive contains JSON files with:</p>
+          <ul className="mt-2 list-disc space-y-1 pl-5">
+            <li>Your account details</li>
+            {OWNED_COLLECTIONS.map((owned) => (
+              <li key={owned.collection}>{owned.label}</li>
+            ))}
+          </ul>
+          <p className="mt-2">Files you uploaded, like your avatar, are included in their original form.</p>
+        </div>
+
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isExporting && (
+          <div className="flex items-center gap-2 text-sm text-black/60">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {received === null ? "Preparing your export..." : `${formatBytes(received)} downloaded`}
+          </div>
+        )}
+
+        <Button onClick={handleExport} className="w-full bg-black text-white hover:bg-black/90" disabled={isExporting}>
+          {isExporting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Exporting...
+            </>
+          ) : (
+            <>
+              <Download className="mr-2 h-4 w-4" />
+              Download my data
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Loader2, Mail, Trash2 } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { useAuthMethods } from "@/hooks/use-auth-methods"
+import { OWNED_COLLECTIONS, requestVerificationCode } from "@/lib/account-data"
+import { applyFormErrors } from "@/lib/form-errors"
+import { pb } from "@/lib/pocketbase"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ImpersonationNotice } from "@/components/settings/impersonation-notice"
+
+// The confirmation must match the account's email exactly, ignoring case
+const buildDeleteSchema = (email: string) =>
+  z.object({
+    secret: z.string().min(1, { message: "Please confirm it's you" }),
+    confirmEmail: z.string().refine((value) => value.trim().toLowerCase() === email.toLowerCase(), {
+      message: "Type your email exactly as shown",
+    }),
+  })
+
+type DeleteFormValues = z.infer<ReturnType<typeof buildDeleteSchema>>
+
+export function DeleteAccountCard() {
+  const { user, impersonation, deleteAccount } = useAuth()
+  const { authMethods } = useAuthMethods()
+  const [useEmailCode, setUseEmailCode] = useState(false)
+  const [otpId, setOtpId] = useState<string | null>(null)
+  const [isSendingCode, setIsSendingCode] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [status, setStatus] = useState<{
+    success?: boolean
+    message?: string
+  } | null>(null)
+
+  const email = user?.email || ""
+  const deleteSchema = useMemo(() => buildDeleteSchema(email), [email])
+
+  const form = useForm<DeleteFormValues>({
+    resolver: zodResolver(deleteSchema),
+    defaultValues: {
+      secret: "",
+      confirmEmail: "",
+    },
+  })
+
+  // Accounts created through a provider usually have no password, so start them on the email code
+  useEffect(() => {
+    if (!user) return
+
+    pb.collection("users")
+      .listExternalAuths(user.id, { requestKey: null })
+      .then((externalAuths) => {
+        if (externalAuths.length > 0) setUseEmailCode(true)
+      })
+      .catch((error) => console.error("Failed to load linked providers:", error))
+  }, [user])
+
+  const canUsePassword = authMethods?.password.enabled ?? true
+  const canUseEmailCode = Boolean(authMethods?.otp.enabled)
+  const method = canUseEmailCode && (useEmailCode || !canUsePassword) ? "otp" : "password"
+
+  const switchMethod = () => {
+    setUseEmailCode(method === "password")
+    setOtpId(null)
+    form.resetField("secret")
+  }
+
+  const sendCode = async () => {
+    setIsSendingCode(true)
+    setStatus(null)
+
+    try {
+      setOtpId(await requestVerificationCode(email))
+      setStatus({
+        success: true,
+        message: `We sent a verification code to ${email}.`,
+      })
+    } catch (error) {
+      console.error("Failed to send verification code:", error)
+      setStatus({
+        success: false,
+        message: "Failed to send the verification code. Please try again.",
+      })
+    } finally {
+      setIsSendingCode(false)
+    }
+  }
+
+  const onSubmit = async (data: DeleteFormValues) => {
+    if (impersonation) return
+    setIsDeleting(true)
+    setStatus(null)
+
+    try {
+      // Checked by the backend as part of the deletion
+      await deleteAccount(method === "otp" && otpId ? { otpId, otp: data.secret } : { password: data.secret })
+    } catch (error) {
+      const message = applyFormErrors(error, form, { fields: { password: "secret", otp: "secret" } })
+      if (message) setStatus({ success: false, message })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  if (!user) return null
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Danger Zone</CardTitle>
+        <CardDescription className="text-black">
+          Permanently delete your account. This cannot be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        <div className="text-sm text-black">
+          <p className="font-medium">Deleting your account removes:</p>
+          <ul className="mt-2 list-disc space-y-1 pl-5">
+            <li>Your profile, email address and sign-in methods</li>
+            {OWNED_COLLECTIONS.map((owned) => (
+              <li key={owned.collection}>{owned.label}</li>
+            ))}
+          </ul>
+          <p className="mt-2">You will be signed out of this account on every device.</p>
+        </div>
+
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <ImpersonationNotice action="delete the account" />
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <fieldset disabled={Boolean(impersonation)} className="space-y-4">
+              {method === "password" ? (
+                <FormField
+                  control={form.control}
+                  name="secret"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-black">Current Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="••••••••"
+                          {...field}
+                          className="border-black focus:ring-black"
+                        />
+                      </FormControl>
+                      <FormMessage className="text-black" />
+                    </FormItem>
+                  )}
+                />
+              ) : otpId ? (
+                <FormField
+                  control={form.control}
+                  name="secret"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-black">Verification Code</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Enter code"
+                          {...field}
+                          className="border-black focus:ring-black text-center text-lg tracking-widest"
+                          maxLength={6}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-black" />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={sendCode}
+                  className="w-full border-black text-black hover:bg-black/5"
+                  disabled={isSendingCode}
+                >
+                  {isSendingCode ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mail className="mr-2 h-4 w-4" />
+                  )}
+                  Email me a verification code
+                </Button>
+              )}
+
+              {canUsePassword && canUseEmailCode && (
+                <Button
+                  type="button"
+                  variant="link"
+                  onClick={switchMethod}
+                  className="h-auto p-0 text-black underline underline-offset-4"
+                >
+                  {method === "password"
+                    ? "No password? Confirm with an email code instead"
+                    : "Confirm with your password instead"}
+                </Button>
+              )}
+
+              <FormField
+                control={form.control}
+                name="confirmEmail"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black">Confirm your email</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={email}
+                        autoComplete="off"
+                        {...field}
+                        className="border-black focus:ring-black"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Type <span className="font-medium text-black">{email}</span> to confirm.
+                    </FormDescription>
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="w-full bg-black text-white hover:bg-black/90"
+                disabled={isDeleting || (method === "otp" && !otpId)}
+              >
+                {isDeleting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  <>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Permanently delete account
+                  </>
+                )}
+              </Button>
+            </fieldset>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  )
+}
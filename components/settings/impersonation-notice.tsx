@@ -0,0 +1,25 @@
+"use client"
+
+import { ShieldAlert } from "lucide-react"
+import { useAuth } from "@/context/auth-context"
+import { cn } from "@/lib/utils"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+
+// Explains why a sensitive form is disabled while a superuser views the app as the user
+export function ImpersonationNotice({ action, className }: { action: string; className?: string }) {
+  const { impersonation } = useAuth()
+
+  if (!impersonation) {
+    return null
+  }
+
+  return (
+    <Alert className={cn("border border-black bg-white text-black", className)}>
+      <ShieldAlert className="h-4 w-4" />
+      <AlertDescription>
+        You can't {action} while viewing as {impersonation.target.email}. Only the user can do this from their own
+        session.
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,279 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { format } from "date-fns"
+import { AlertCircle, Copy, Loader2, Plus, X } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { applyFormErrors } from "@/lib/form-errors"
+import { createInvite, getInviteUrl, listInvites, revokeInvite, type Invite } from "@/lib/invites"
+import { parsePocketBaseDate } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+// Choices offered when creating an invite, 0 meaning unlimited or never
+const MAX_USES_OPTIONS = [1, 5, 25, 0]
+const EXPIRY_OPTIONS = [1, 7, 30, 0]
+
+const inviteSchema = z.object({
+  email: z.union([z.literal(""), z.string().email({ message: "Please enter a valid email address" })]),
+  maxUses: z.string(),
+  expiresInDays: z.string(),
+})
+
+type InviteFormValues = z.infer<typeof inviteSchema>
+
+export function InvitesCard() {
+  const { user } = useAuth()
+  const [invites, setInvites] = useState<Invite[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: {
+      email: "",
+      maxUses: "1",
+      expiresInDays: "7",
+    },
+  })
+
+  const loadInvites = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setInvites(await listInvites(user.id))
+    } catch (error) {
+      console.error("Failed to load invites:", error)
+      setStatus({ success: false, message: "Failed to load your invites. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadInvites()
+  }, [loadInvites])
+
+  const copyLink = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.id))
+      setStatus({ success: true, message: "Invite link copied to the clipboard." })
+    } catch {
+      setStatus({ success: false, message: `Copy this link: ${getInviteUrl(invite.id)}` })
+    }
+  }
+
+  const onSubmit = async (data: InviteFormValues) => {
+    if (!user) return
+
+    setIsCreating(true)
+    setStatus(null)
+
+    try {
+      const invite = await createInvite(user.id, {
+        email: data.email,
+        maxUses: Number(data.maxUses),
+        expiresInDays: Number(data.expiresInDays),
+      })
+      setInvites((current) => [invite, ...current])
+      form.reset()
+      await copyLink(invite)
+    } catch (err) {
+      const message = applyFormErrors(err, form)
+      if (message) setStatus({ success: false, message })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    setPendingAction(id)
+    setStatus(null)
+
+    try {
+      await revokeInvite(id)
+      setInvites((current) => current.filter((invite) => invite.id !== id))
+    } catch (error) {
+      setStatus({ success: false, message: "Failed to revoke that invite. Please try again." })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Invites</CardTitle>
+        <CardDescription className="text-black">
+          Invite people to create an account. Links stop working once revoked, expired or used up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="break-all">{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-black">Email (optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="their.email@example.com"
+                      {...field}
+                      className="border-black focus:ring-black"
+                    />
+                  </FormControl>
+                  <FormDescription>Only this address will be able to use the invite.</FormDescription>
+                  <FormMessage className="text-black" />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="maxUses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black">Uses</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="border-black focus:ring-black">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MAX_USES_OPTIONS.map((uses) => (
+                          <SelectItem key={uses} value={uses.toString()}>
+                            {uses === 0 ? "Unlimited" : uses === 1 ? "Single use" : `${uses} uses`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiresInDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-black">Expires</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="border-black focus:ring-black">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((days) => (
+                          <SelectItem key={days} value={days.toString()}>
+                            {days === 0 ? "Never" : days === 1 ? "After 1 day" : `After ${days} days`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-black text-white hover:bg-black/90" disabled={isCreating}>
+              {isCreating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Invite Link
+                </>
+              )}
+            </Button>
+          </form>
+        </Form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-black" />
+          </div>
+        ) : invites.length === 0 ? (
+          <p className="text-sm text-black">You have no outstanding invites.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-black">
+                <TableHead className="text-black">For</TableHead>
+                <TableHead className="text-black">Used</TableHead>
+                <TableHead className="text-black">Expires</TableHead>
+                <TableHead className="text-right text-black">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invites.map((invite) => (
+                <TableRow key={invite.id} className="border-black">
+                  <TableCell>{invite.email || "Anyone with the link"}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {invite.usedBy.length} / {invite.maxUses || "∞"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {invite.expiresAt ? format(parsePocketBaseDate(invite.expiresAt), "PPp") : "Never"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyLink(invite)}
+                      className="text-black hover:bg-black/5"
+                      aria-label="Copy invite link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(invite.id)}
+                      className="text-black hover:bg-black/5"
+                      disabled={pendingAction !== null}
+                      aria-label="Revoke invite"
+                    >
+                      {pendingAction === invite.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <X className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
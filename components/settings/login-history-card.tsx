@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { AlertCircle, Loader2 } from "lucide-react"
+
+import { listLoginEvents, type LoginEvent, type LoginMethod } from "@/lib/login-events"
+import { describeUserAgent } from "@/lib/sessions"
+import { parsePocketBaseDate } from "@/lib/utils"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+const METHOD_LABELS: Record<LoginMethod, string> = {
+  password: "Password",
+  otp: "Email code",
+  mfa: "Password + code",
+  oauth2: "OAuth2",
+}
+
+export function LoginHistoryCard() {
+  const [events, setEvents] = useState<LoginEvent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listLoginEvents()
+      .then((result) => setEvents(result.items))
+      .catch((err) => {
+        console.error("Failed to load login history:", err)
+        setError("Failed to load your login history. Please try again.")
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Login History</CardTitle>
+        <CardDescription className="text-black">Recent sign-in attempts on your account</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {error && (
+          <Alert variant="destructive" className="mb-4 border border-black bg-white text-black">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-black" />
+          </div>
+        ) : events.length === 0 ? (
+          !error && <p className="text-sm text-black">No sign-ins recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-black">
+                <TableHead className="text-black">Time</TableHead>
+                <TableHead className="text-black">Method</TableHead>
+                <TableHead className="text-black">Device</TableHead>
+                <TableHead className="text-black">IP</TableHead>
+                <TableHead className="text-black">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} className="border-black">
+                  <TableCell className="whitespace-nowrap">
+                    {format(parsePocketBaseDate(event.created), "PPp")}
+                  </TableCell>
+                  <TableCell>{METHOD_LABELS[event.method] || event.method}</TableCell>
+                  <TableCell>{describeUserAgent(event.userAgent)}</TableCell>
+                  <TableCell>{event.ip || "—"}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={event.success ? "border-black text-black" : "border-black bg-black text-white"}
+                    >
+                      {event.success ? "Success" : "Failed"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { AlertCircle, Loader2, MailCheck, X } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { useCooldown } from "@/hooks/use-cooldown"
+import { startCooldown, startCooldownFromError } from "@/lib/cooldown"
+import {
+  PENDING_EMAIL_CHANGE_EVENT,
+  clearPendingEmailChange,
+  getPendingEmailChange,
+  isPendingEmailChangeKey,
+  savePendingEmailChange,
+  type PendingEmailChange,
+} from "@/lib/email-change"
+import { getErrorMessage } from "@/lib/form-errors"
+import { pb } from "@/lib/pocketbase"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CooldownButton } from "@/components/cooldown-button"
+import { ImpersonationNotice } from "@/components/settings/impersonation-notice"
+
+// The user's pending change, kept in sync with other components and tabs and cleared when its link expires
+const usePendingEmailChange = (userId: string | undefined) => {
+  const [pending, setPending] = useState<PendingEmailChange | null>(null)
+
+  useEffect(() => {
+    const update = () => setPending(userId ? getPendingEmailChange(userId) : null)
+    const handleStorage = (event: StorageEvent) => {
+      if (isPendingEmailChangeKey(event.key)) update()
+    }
+
+    update()
+    window.addEventListener(PENDING_EMAIL_CHANGE_EVENT, update)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(PENDING_EMAIL_CHANGE_EVENT, update)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    if (!pending || !userId) return
+
+    const timer = setTimeout(() => setPending(getPendingEmailChange(userId)), pending.expiresAt - Date.now())
+    return () => clearTimeout(timer)
+  }, [pending, userId])
+
+  return pending
+}
+
+export function PendingEmailChangeCard() {
+  const { user, impersonation } = useAuth()
+  const pending = usePendingEmailChange(user?.id)
+  const cooldown = useCooldown("email-change", user?.email)
+  const [isResending, setIsResending] = useState(false)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  // Confirmed from another device: the refreshed record already has the new address
+  useEffect(() => {
+    if (user && pending && user.email.toLowerCase() === pending.newEmail.toLowerCase()) {
+      clearPendingEmailChange(user.id)
+    }
+  }, [user, pending])
+
+  if (!user || !pending) return null
+
+  const handleResend = async () => {
+    if (impersonation) return
+    setIsResending(true)
+    setStatus(null)
+
+    try {
+      await pb.collection("users").requestEmailChange(pending.newEmail)
+      startCooldown("email-change", user.email)
+      // A new link is valid from now on
+      savePendingEmailChange(user.id, pending.newEmail)
+      setStatus({ success: true, message: `A new confirmation link has been sent to ${pending.newEmail}.` })
+    } catch (error) {
+      startCooldownFromError("email-change", user.email, error)
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  // PocketBase can't revoke the link without signing out every session, so it's forgotten here and left to expire
+  const handleCancel = () => {
+    clearPendingEmailChange(user.id)
+    setStatus(null)
+  }
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle className="flex items-center gap-2">
+          <MailCheck className="h-5 w-5" />
+          Email Change Pending
+        </CardTitle>
+        <CardDescription className="text-black">
+          Change to <strong>{pending.newEmail}</strong> pending, check your inbox for the confirmation link.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <ImpersonationNotice action="resend the confirmation link" />
+
+        <p className="text-sm text-black/60">
+          Requested {formatDistanceToNow(pending.requestedAt, { addSuffix: true })}. The link expires at{" "}
+          {format(pending.expiresAt, "HH:mm")}. If you cancel, ignore the email: the link stops working once it expires.
+        </p>
+
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <CooldownButton
+            onClick={handleResend}
+            containerClassName="flex-1"
+            className="w-full bg-black text-white hover:bg-black/90"
+            disabled={isResending || Boolean(impersonation)}
+            remaining={cooldown}
+          >
+            {isResending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              "Resend Link"
+            )}
+          </CooldownButton>
+          <Button
+            variant="outline"
+            onClick={handleCancel}
+            className="flex-1 border-black text-black hover:bg-black/5"
+            disabled={isResending}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Cancel Change
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
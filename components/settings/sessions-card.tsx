@@ -0,0 +1,179 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { AlertCircle, Loader2, LogOut, Monitor } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import {
+  describeUserAgent,
+  getCurrentSessionId,
+  listSessions,
+  revokeOtherSessions,
+  revokeSession,
+  type Session,
+} from "@/lib/sessions"
+import { parsePocketBaseDate } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ImpersonationNotice } from "@/components/settings/impersonation-notice"
+
+export function SessionsCard() {
+  const { user, impersonation } = useAuth()
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  const currentSessionId = user ? getCurrentSessionId(user.id) : null
+
+  const loadSessions = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setSessions(await listSessions(user.id))
+    } catch (error) {
+      console.error("Failed to load sessions:", error)
+      setStatus({ success: false, message: "Failed to load your sessions. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (sessionId: string) => {
+    if (impersonation) return
+    setPendingAction(sessionId)
+    setStatus(null)
+
+    try {
+      await revokeSession(sessionId)
+      setSessions((current) => current.filter((session) => session.id !== sessionId))
+      setStatus({
+        success: true,
+        message:
+          "That session is signed out the next time it checks in. Until then it can still use your account; to end access right away, sign out all other sessions.",
+      })
+    } catch (error) {
+      setStatus({ success: false, message: "Failed to sign out that session. Please try again." })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    if (!user || impersonation) return
+
+    setPendingAction("others")
+    setStatus(null)
+
+    try {
+      await revokeOtherSessions(user.id)
+      setStatus({
+        success: true,
+        message: "All other sessions have been signed out and can no longer access your account.",
+      })
+      await loadSessions()
+    } catch (error) {
+      setStatus({ success: false, message: "Failed to sign out other sessions. Please try again." })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const hasOtherSessions = sessions.some((session) => session.id !== currentSessionId)
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription className="text-black">
+          Devices where your account is signed in. A device you sign out is logged out the next time it checks in and
+          can use your account until then. Signing out all other sessions ends their access right away.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <ImpersonationNotice action="sign out sessions" />
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-black" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-black">No active sessions found.</p>
+        ) : (
+          <ul className="divide-y divide-black border border-black">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center gap-4 p-4">
+                <Monitor className="h-6 w-6 shrink-0 text-black" />
+                <div className="min-w-0 flex-1 text-sm text-black">
+                  <div className="flex items-center gap-2 font-medium">
+                    {describeUserAgent(session.userAgent)}
+                    {session.id === currentSessionId && (
+                      <Badge className="bg-black text-white hover:bg-black">This device</Badge>
+                    )}
+                  </div>
+                  <div className="text-black/60">
+                    {[session.location, session.ip].filter(Boolean).join(" · ") || "Unknown location"}
+                  </div>
+                  <div className="text-black/60">
+                    First seen {formatDistanceToNow(parsePocketBaseDate(session.created), { addSuffix: true })} · Last
+                    active {formatDistanceToNow(parsePocketBaseDate(session.lastActive), { addSuffix: true })}
+                  </div>
+                </div>
+                {session.id !== currentSessionId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(session.id)}
+                    className="border-black text-black hover:bg-black/5"
+                    disabled={pendingAction !== null || Boolean(impersonation)}
+                  >
+                    {pendingAction === session.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogOut className="mr-2 h-4 w-4" />
+                    )}
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasOtherSessions && (
+          <Button
+            onClick={handleRevokeOthers}
+            className="w-full bg-black text-white hover:bg-black/90"
+            disabled={pendingAction !== null || Boolean(impersonation)}
+          >
+            {pendingAction === "others" ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Signing out...
+              </>
+            ) : (
+              "Sign out everywhere else"
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,514 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Loader2, Save, User, Lock, Mail, Shield, UserPlus } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { useRole } from "@/hooks/use-role"
+import { pb } from "@/lib/pocketbase"
+import { applyFormErrors } from "@/lib/form-errors"
+import { startCooldown, startCooldownFromError } from "@/lib/cooldown"
+import { savePendingEmailChange } from "@/lib/email-change"
+import { useCooldown } from "@/hooks/use-cooldown"
+import type { UsersResponse } from "@/lib/pocketbase-types"
+import { refinePassword, type PersonalInfo } from "@/lib/password-policy"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PasswordStrengthMeter } from "@/components/auth/password-strength-meter"
+import { CooldownButton } from "@/components/cooldown-button"
+import { AvatarEditor } from "@/components/settings/avatar-editor"
+import { SessionsCard } from "@/components/settings/sessions-card"
+import { LoginHistoryCard } from "@/components/settings/login-history-card"
+import { DataExportCard } from "@/components/settings/data-export-card"
+import { DeleteAccountCard } from "@/components/settings/delete-account-card"
+import { PendingEmailChangeCard } from "@/components/settings/pending-email-change-card"
+import { ImpersonationNotice } from "@/components/settings/impersonation-notice"
+import { InvitesCard } from "@/components/settings/invites-card"
+import { RequireRole } from "@/components/auth/require-role"
+
+// Schema for profile update
+const profileSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters" }),
+})
+
+// Schema for email update
+const emailSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address" }),
+})
+
+// Schema for password update, checking the new password against the shared policy
+const buildPasswordSchema = (personalInfo: PersonalInfo) =>
+  z
+    .object({
+      oldPassword: z.string().min(8, { message: "Password must be at least 8 characters" }),
+      password: z.string(),
+      passwordConfirm: z.string(),
+    })
+    .superRefine((data, ctx) => refinePassword(ctx, data.password, personalInfo))
+    .refine((data) => data.password === data.passwordConfirm, {
+      message: "Passwords do not match",
+      path: ["passwordConfirm"],
+    })
+
+type ProfileFormValues = z.infer<typeof profileSchema>
+type EmailFormValues = z.infer<typeof emailSchema>
+type PasswordFormValues = z.infer<ReturnType<typeof buildPasswordSchema>>
+
+interface SettingsTabsProps {
+  // User record fetched on the server, used to pre-fill the forms
+  record: UsersResponse
+}
+
+export function SettingsTabs({ record }: SettingsTabsProps) {
+  const { user, impersonation, refreshVerificationStatus } = useAuth()
+  const { can } = useRole()
+  const canManageInvites = can("invites:manage")
+  const [profileStatus, setProfileStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+  const [emailStatus, setEmailStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+  const [passwordStatus, setPasswordStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+  const [isUpdatingProfile, setIsUpdatingProfile] = useState(false)
+  const [isUpdatingEmail, setIsUpdatingEmail] = useState(false)
+  const [isUpdatingPassword, setIsUpdatingPassword] = useState(false)
+  // Email change requests are throttled per account, keyed on the current address
+  const emailCooldown = useCooldown("email-change", user?.email)
+
+  // Profile form
+  const profileForm = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: record.name || "",
+    },
+  })
+
+  // Email form
+  const emailForm = useForm<EmailFormValues>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: {
+      email: record.email || "",
+    },
+  })
+
+  // Password form
+  const personalInfo = useMemo<PersonalInfo>(
+    () => ({ email: user?.email, name: user?.name }),
+    [user?.email, user?.name],
+  )
+  const passwordSchema = useMemo(() => buildPasswordSchema(personalInfo), [personalInfo])
+  const passwordForm = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      oldPassword: "",
+      password: "",
+      passwordConfirm: "",
+    },
+  })
+
+  // Handle profile update
+  const onProfileSubmit = async (data: ProfileFormValues) => {
+    if (!user) return
+
+    setIsUpdatingProfile(true)
+    setProfileStatus(null)
+
+    try {
+      await pb.collection("users").update(user.id, {
+        name: data.name,
+      })
+
+      setProfileStatus({
+        success: true,
+        message: "Profile updated successfully!",
+      })
+
+      // Refresh user data
+      await refreshVerificationStatus()
+    } catch (err) {
+      const message = applyFormErrors(err, profileForm)
+      if (message) {
+        setProfileStatus({
+          success: false,
+          message,
+        })
+      }
+    } finally {
+      setIsUpdatingProfile(false)
+    }
+  }
+
+  // Handle email update
+  const onEmailSubmit = async (data: EmailFormValues) => {
+    // Credentials stay with the user, even when a superuser views the app as them
+    if (!user || impersonation) return
+
+    setIsUpdatingEmail(true)
+    setEmailStatus(null)
+
+    try {
+      await pb.collection("users").requestEmailChange(data.email)
+      startCooldown("email-change", user.email)
+
+      // Shown by PendingEmailChangeCard until it's confirmed, cancelled or the link expires
+      savePendingEmailChange(user.id, data.email)
+      emailForm.reset()
+    } catch (err) {
+      startCooldownFromError("email-change", user.email, err)
+      const message = applyFormErrors(err, emailForm, { fields: { newEmail: "email" } })
+      if (message) {
+        setEmailStatus({
+          success: false,
+          message,
+        })
+      }
+    } finally {
+      setIsUpdatingEmail(false)
+    }
+  }
+
+  // Handle password update
+  const onPasswordSubmit = async (data: PasswordFormValues) => {
+    if (!user || impersonation) return
+
+    setIsUpdatingPassword(true)
+    setPasswordStatus(null)
+
+    try {
+      await pb.collection("users").update(user.id, {
+        oldPassword: data.oldPassword,
+        password: data.password,
+        passwordConfirm: data.passwordConfirm,
+      })
+
+      setPasswordStatus({
+        success: true,
+        message: "Password updated successfully!",
+      })
+
+      // Reset form
+      passwordForm.reset({
+        oldPassword: "",
+        password: "",
+        passwordConfirm: "",
+      })
+    } catch (err) {
+      const message = applyFormErrors(err, passwordForm)
+      if (message) {
+        setPasswordStatus({
+          success: false,
+          message,
+        })
+      }
+    } finally {
+      setIsUpdatingPassword(false)
+    }
+  }
+
+  if (!user) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-black" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto py-6 max-w-3xl">
+      <h1 className="text-3xl font-bold mb-6 text-black">Account Settings</h1>
+
+      <Tabs defaultValue="profile" className="w-full">
+        <TabsList
+          className={`grid w-full ${canManageInvites ? "grid-cols-5" : "grid-cols-4"} mb-6 border border-black`}
+        >
+          <TabsTrigger value="profile" className="data-[state=active]:bg-black data-[state=active]:text-white">
+            <User className="mr-2 h-4 w-4" />
+            Profile
+          </TabsTrigger>
+          <TabsTrigger value="email" className="data-[state=active]:bg-black data-[state=active]:text-white">
+            <Mail className="mr-2 h-4 w-4" />
+            Email
+          </TabsTrigger>
+          <TabsTrigger value="password" className="data-[state=active]:bg-black data-[state=active]:text-white">
+            <Lock className="mr-2 h-4 w-4" />
+            Password
+          </TabsTrigger>
+          <TabsTrigger value="security" className="data-[state=active]:bg-black data-[state=active]:text-white">
+            <Shield className="mr-2 h-4 w-4" />
+            Security
+          </TabsTrigger>
+          {canManageInvites && (
+            <TabsTrigger value="invites" className="data-[state=active]:bg-black data-[state=active]:text-white">
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invites
+            </TabsTrigger>
+          )}
+        </TabsList>
+
+        {/* Profile Tab */}
+        <TabsContent value="profile" className="space-y-6">
+          <Card className="border-black">
+            <CardHeader className="border-b border-black">
+              <CardTitle>Profile Information</CardTitle>
+              <CardDescription className="text-black">Update your profile information</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {profileStatus && (
+                <Alert
+                  variant={profileStatus.success ? "default" : "destructive"}
+                  className={`mb-4 border ${
+                    profileStatus.success ? "border-black bg-white text-black" : "border-black bg-white text-black"
+                  }`}
+                >
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{profileStatus.message}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="mb-6 border-b border-black pb-6">
+                <AvatarEditor />
+              </div>
+
+              <Form {...profileForm}>
+                <form onSubmit={profileForm.handleSubmit(onProfileSubmit)} className="space-y-4">
+                  <FormField
+                    control={profileForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-black">Display Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Your name" {...field} className="border-black focus:ring-black" />
+                        </FormControl>
+                        <FormDescription>This is your public display name.</FormDescription>
+                        <FormMessage className="text-black" />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    className="w-full bg-black text-white hover:bg-black/90"
+                    disabled={isUpdatingProfile}
+                  >
+                    {isUpdatingProfile ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Updating...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="mr-2 h-4 w-4" />
+                        Save Changes
+                      </>
+                    )}
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <DataExportCard />
+          <DeleteAccountCard />
+        </TabsContent>
+
+        {/* Email Tab */}
+        <TabsContent value="email" className="space-y-6">
+          <PendingEmailChangeCard />
+          <Card className="border-black">
+            <CardHeader className="border-b border-black">
+              <CardTitle>Change Email</CardTitle>
+              <CardDescription className="text-black">Update your email address</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {emailStatus && (
+                <Alert
+                  variant={emailStatus.success ? "default" : "destructive"}
+                  className={`mb-4 border ${
+                    emailStatus.success ? "border-black bg-white text-black" : "border-black bg-white text-black"
+                  }`}
+                >
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{emailStatus.message}</AlertDescription>
+                </Alert>
+              )}
+
+              <ImpersonationNotice action="change the email address" className="mb-4" />
+
+              <Form {...emailForm}>
+                <form onSubmit={emailForm.handleSubmit(onEmailSubmit)}>
+                  <fieldset disabled={Boolean(impersonation)} className="space-y-4">
+                    <FormField
+                      control={emailForm.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-black">New Email Address</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="your.new.email@example.com"
+                              {...field}
+                              className="border-black focus:ring-black"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            You will need to verify your new email address before the change takes effect.
+                          </FormDescription>
+                          <FormMessage className="text-black" />
+                        </FormItem>
+                      )}
+                    />
+
+                    <CooldownButton
+                      type="submit"
+                      className="w-full bg-black text-white hover:bg-black/90"
+                      disabled={isUpdatingEmail}
+                      remaining={emailCooldown}
+                    >
+                      {isUpdatingEmail ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Updating...
+                        </>
+                      ) : (
+                        <>
+                          <Save className="mr-2 h-4 w-4" />
+                          Update Email
+                        </>
+                      )}
+                    </CooldownButton>
+                  </fieldset>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Password Tab */}
+        <TabsContent value="password">
+          <Card className="border-black">
+            <CardHeader className="border-b border-black">
+              <CardTitle>Change Password</CardTitle>
+              <CardDescription className="text-black">Update your password</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {passwordStatus && (
+                <Alert
+                  variant={passwordStatus.success ? "default" : "destructive"}
+                  className={`mb-4 border ${
+                    passwordStatus.success ? "border-black bg-white text-black" : "border-black bg-white text-black"
+                  }`}
+                >
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{passwordStatus.message}</AlertDescription>
+                </Alert>
+              )}
+
+              <ImpersonationNotice action="change the password" className="mb-4" />
+
+              <Form {...passwordForm}>
+                <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)}>
+                  <fieldset disabled={Boolean(impersonation)} className="space-y-4">
+                    <FormField
+                      control={passwordForm.control}
+                      name="oldPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-black">Current Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="••••••••"
+                              {...field}
+                              className="border-black focus:ring-black"
+                            />
+                          </FormControl>
+                          <FormMessage className="text-black" />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={passwordForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-black">New Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="••••••••"
+                              {...field}
+                              className="border-black focus:ring-black"
+                            />
+                          </FormControl>
+                          <PasswordStrengthMeter password={field.value} personalInfo={personalInfo} />
+                          <FormMessage className="text-black" />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={passwordForm.control}
+                      name="passwordConfirm"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-black">Confirm New Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="••••••••"
+                              {...field}
+                              className="border-black focus:ring-black"
+                            />
+                          </FormControl>
+                          <FormMessage className="text-black" />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button
+                      type="submit"
+                      className="w-full bg-black text-white hover:bg-black/90"
+                      disabled={isUpdatingPassword}
+                    >
+                      {isUpdatingPassword ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Updating...
+                        </>
+                      ) : (
+                        <>
+                          <Save className="mr-2 h-4 w-4" />
+                          Update Password
+                        </>
+                      )}
+                    </Button>
+                  </fieldset>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Security Tab */}
+        <TabsContent value="security" className="space-y-6">
+          <SessionsCard />
+          <LoginHistoryCard />
+        </TabsContent>
+
+        {/* Invites Tab */}
+        <TabsContent value="invites" className="space-y-6">
+          <RequireRole permission="invites:manage">
+            <InvitesCard />
+          </RequireRole>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
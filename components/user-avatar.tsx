@@ -0,0 +1,26 @@
+"use client"
+
+import type { User } from "@/context/auth-context"
+import { getAvatarUrl, type AvatarSize } from "@/lib/avatar"
+import { cn } from "@/lib/utils"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+
+interface UserAvatarProps {
+  user: User | null
+  // Thumbnail to load; pick the smallest one that covers the rendered size
+  size?: AvatarSize
+  className?: string
+}
+
+// The user's avatar, falling back to the first letter of their name or email
+export function UserAvatar({ user, size = "sm", className }: UserAvatarProps) {
+  const avatarUrl = user ? getAvatarUrl(user, size) : null
+  const initial = user?.name?.charAt(0) || user?.email?.charAt(0) || "U"
+
+  return (
+    <Avatar className={cn("h-8 w-8 border border-black bg-white text-sm font-medium", className)}>
+      {avatarUrl && <AvatarImage src={avatarUrl} alt={user?.name || user?.email} className="object-cover" />}
+      <AvatarFallback className="bg-white text-sm font-medium uppercase text-black">{initial}</AvatarFallback>
+    </Avatar>
+  )
+}
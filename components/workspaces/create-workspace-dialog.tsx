@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Loader2, Plus } from "lucide-react"
+
+import { useWorkspace } from "@/context/workspace-context"
+import { applyFormErrors } from "@/lib/form-errors"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+const workspaceNameSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Please enter a name" })
+    .max(100, { message: "Name must be at most 100 characters" }),
+})
+
+type WorkspaceNameValues = z.infer<typeof workspaceNameSchema>
+
+interface CreateWorkspaceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CreateWorkspaceDialog({ open, onOpenChange }: CreateWorkspaceDialogProps) {
+  const { createWorkspace } = useWorkspace()
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const form = useForm<WorkspaceNameValues>({
+    resolver: zodResolver(workspaceNameSchema),
+    defaultValues: { name: "" },
+  })
+
+  useEffect(() => {
+    if (!open) return
+    form.reset()
+    setError(null)
+  }, [open, form])
+
+  const onSubmit = async (data: WorkspaceNameValues) => {
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      await createWorkspace(data.name)
+      onOpenChange(false)
+    } catch (err) {
+      setError(applyFormErrors(err, form))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCreating && onOpenChange(next)}>
+      <DialogContent className="border border-black sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create Workspace</DialogTitle>
+          <DialogDescription className="text-black">
+            A workspace keeps its data apart from your other workspaces. You can invite people once it's created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive" className="border border-black bg-white text-black">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-black">Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Acme Inc." {...field} className="border-black focus:ring-black" />
+                  </FormControl>
+                  <FormMessage className="text-black" />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isCreating}
+                className="border-black text-black hover:bg-black/5"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating} className="bg-black text-white hover:bg-black/90">
+                {isCreating ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  <>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create Workspace
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
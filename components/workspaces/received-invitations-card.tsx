@@ -0,0 +1,165 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { format } from "date-fns"
+import { AlertCircle, Check, Loader2, X } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { useWorkspace } from "@/context/workspace-context"
+import { getErrorMessage } from "@/lib/form-errors"
+import { cn, parsePocketBaseDate } from "@/lib/utils"
+import {
+  INVITATION_PARAM,
+  WORKSPACE_ROLE_LABELS,
+  acceptInvitation,
+  deleteInvitation,
+  listReceivedInvitations,
+  type WorkspaceInvitation,
+} from "@/lib/workspaces"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+// Invitations sent to the user's email address. Hidden when there are none, unless one was linked from an email.
+export function ReceivedInvitationsCard() {
+  const { user } = useAuth()
+  const { reloadWorkspaces, switchWorkspace } = useWorkspace()
+  const searchParams = useSearchParams()
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  const linkedId = searchParams.get(INVITATION_PARAM)
+  const email = user?.email
+
+  const loadInvitations = useCallback(async () => {
+    if (!email) return
+
+    try {
+      setInvitations(await listReceivedInvitations(email))
+    } catch (error) {
+      console.error("Failed to load invitations:", error)
+      setStatus({ success: false, message: "Failed to load your invitations. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [email])
+
+  useEffect(() => {
+    loadInvitations()
+  }, [loadInvitations])
+
+  if (!user || isLoading) return null
+
+  // The invitation from the email link may have been answered, revoked or sent to another address
+  const isLinkedMissing = linkedId !== null && !invitations.some((invitation) => invitation.id === linkedId)
+  if (invitations.length === 0 && !isLinkedMissing && !status) return null
+
+  const handleAccept = async (invitation: WorkspaceInvitation) => {
+    setPendingAction(invitation.id)
+    setStatus(null)
+
+    try {
+      await acceptInvitation(invitation, user.id)
+      setInvitations((current) => current.filter((item) => item.id !== invitation.id))
+      await reloadWorkspaces()
+      switchWorkspace(invitation.workspace)
+      setStatus({ success: true, message: `You joined ${invitation.expand?.workspace?.name}.` })
+    } catch (error) {
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleDecline = async (invitation: WorkspaceInvitation) => {
+    setPendingAction(invitation.id)
+    setStatus(null)
+
+    try {
+      await deleteInvitation(invitation.id)
+      setInvitations((current) => current.filter((item) => item.id !== invitation.id))
+    } catch (error) {
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Invitations</CardTitle>
+        <CardDescription className="text-black">
+          Workspaces you've been invited to join as {user.email}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLinkedMissing && !status && (
+          <Alert variant="destructive" className="border border-black bg-white text-black">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              This invitation is no longer valid, or it was sent to another email address. Ask for a new one if you
+              still need access.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className={cn(
+              "flex flex-col gap-3 border border-black p-4 sm:flex-row sm:items-center sm:justify-between",
+              invitation.id === linkedId && "border-2",
+            )}
+          >
+            <div className="min-w-0">
+              <p className="truncate font-medium text-black">{invitation.expand?.workspace?.name}</p>
+              <p className="text-sm text-black/60">
+                As {WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase()} · expires{" "}
+                {format(parsePocketBaseDate(invitation.expiresAt), "PP")}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDecline(invitation)}
+                className="border-black text-black hover:bg-black/5"
+                disabled={pendingAction !== null}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Decline
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleAccept(invitation)}
+                className="bg-black text-white hover:bg-black/90"
+                disabled={pendingAction !== null}
+              >
+                {pendingAction === invitation.id ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Check className="mr-2 h-4 w-4" />
+                )}
+                Accept
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,197 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Loader2, LogOut, Save, Trash2 } from "lucide-react"
+
+import { useWorkspace } from "@/context/workspace-context"
+import { applyFormErrors, getErrorMessage } from "@/lib/form-errors"
+import { canManageWorkspace, removeMember } from "@/lib/workspaces"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+const renameSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Please enter a name" })
+    .max(100, { message: "Name must be at most 100 characters" }),
+})
+
+type RenameFormValues = z.infer<typeof renameSchema>
+
+// Rename, delete or leave the active workspace
+export function WorkspaceGeneralCard() {
+  const { memberships, activeWorkspace, activeRole, renameWorkspace, deleteWorkspace, reloadWorkspaces } =
+    useWorkspace()
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRemoving, setIsRemoving] = useState(false)
+  const [showConfirm, setShowConfirm] = useState(false)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  const form = useForm<RenameFormValues>({
+    resolver: zodResolver(renameSchema),
+    defaultValues: { name: activeWorkspace?.name || "" },
+  })
+
+  useEffect(() => {
+    form.reset({ name: activeWorkspace?.name || "" })
+    setStatus(null)
+  }, [activeWorkspace?.id, activeWorkspace?.name, form])
+
+  if (!activeWorkspace || !activeRole) return null
+
+  const isOwner = activeRole === "owner"
+  const canRename = canManageWorkspace(activeRole)
+
+  const onSubmit = async (data: RenameFormValues) => {
+    setIsSaving(true)
+    setStatus(null)
+
+    try {
+      await renameWorkspace(activeWorkspace.id, data.name)
+      setStatus({ success: true, message: "Workspace renamed successfully!" })
+    } catch (err) {
+      const message = applyFormErrors(err, form)
+      if (message) setStatus({ success: false, message })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // The owner deletes the workspace for everyone, other members only leave it
+  const confirmRemove = async () => {
+    setIsRemoving(true)
+    setStatus(null)
+
+    try {
+      if (isOwner) {
+        await deleteWorkspace(activeWorkspace.id)
+      } else {
+        const membership = memberships.find((current) => current.workspace === activeWorkspace.id)
+        if (membership) await removeMember(membership.id)
+        await reloadWorkspaces()
+      }
+      setShowConfirm(false)
+    } catch (error) {
+      setShowConfirm(false)
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setIsRemoving(false)
+    }
+  }
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>General</CardTitle>
+        <CardDescription className="text-black">
+          {canRename ? "Rename this workspace." : "Only owners and admins can rename this workspace."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-black">Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} readOnly={!canRename} className="border-black focus:ring-black" />
+                  </FormControl>
+                  <FormMessage className="text-black" />
+                </FormItem>
+              )}
+            />
+            {canRename && (
+              <Button type="submit" className="w-full bg-black text-white hover:bg-black/90" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Changes
+                  </>
+                )}
+              </Button>
+            )}
+          </form>
+        </Form>
+
+        <div className="border-t border-black pt-6">
+          <Button
+            variant="outline"
+            onClick={() => setShowConfirm(true)}
+            className="w-full border-black text-black hover:bg-black/5"
+            disabled={isRemoving}
+          >
+            {isOwner ? <Trash2 className="mr-2 h-4 w-4" /> : <LogOut className="mr-2 h-4 w-4" />}
+            {isOwner ? "Delete Workspace" : "Leave Workspace"}
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={showConfirm} onOpenChange={(open) => !isRemoving && setShowConfirm(open)}>
+        <AlertDialogContent className="border border-black">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {isOwner ? `Delete ${activeWorkspace.name}?` : `Leave ${activeWorkspace.name}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-black">
+              {isOwner
+                ? "The workspace, its members, invitations and data are permanently deleted. This cannot be undone."
+                : "You'll lose access to this workspace and its data until someone invites you again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-black text-black hover:bg-black/5" disabled={isRemoving}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // Keep the dialog open until the request is done
+                event.preventDefault()
+                confirmRemove()
+              }}
+              className="bg-black text-white hover:bg-black/90"
+              disabled={isRemoving}
+            >
+              {isRemoving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isOwner ? "Yes, delete workspace" : "Yes, leave workspace"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
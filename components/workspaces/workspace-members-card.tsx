@@ -0,0 +1,332 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { format } from "date-fns"
+import { AlertCircle, Loader2, Send, UserMinus, X } from "lucide-react"
+
+import { useAuth } from "@/context/auth-context"
+import { useWorkspace } from "@/context/workspace-context"
+import { applyFormErrors, getErrorMessage } from "@/lib/form-errors"
+import { parsePocketBaseDate } from "@/lib/utils"
+import {
+  ASSIGNABLE_WORKSPACE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  canManageWorkspace,
+  deleteInvitation,
+  inviteToWorkspace,
+  listMembers,
+  listWorkspaceInvitations,
+  removeMember,
+  updateMemberRole,
+  type AssignableWorkspaceRole,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+} from "@/lib/workspaces"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { UserAvatar } from "@/components/user-avatar"
+
+const invitationSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address" }),
+  role: z.enum(ASSIGNABLE_WORKSPACE_ROLES as [AssignableWorkspaceRole, ...AssignableWorkspaceRole[]]),
+})
+
+type InvitationFormValues = z.infer<typeof invitationSchema>
+
+// Members of the active workspace, and for owners and admins the invitations to join it
+export function WorkspaceMembersCard() {
+  const { user } = useAuth()
+  const { activeWorkspace, activeRole } = useWorkspace()
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isInviting, setIsInviting] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ success?: boolean; message?: string } | null>(null)
+
+  const workspaceId = activeWorkspace?.id
+  const canManage = canManageWorkspace(activeRole)
+
+  const form = useForm<InvitationFormValues>({
+    resolver: zodResolver(invitationSchema),
+    defaultValues: { email: "", role: "member" },
+  })
+
+  const loadMembers = useCallback(async () => {
+    if (!workspaceId) return
+
+    setIsLoading(true)
+    try {
+      const [loadedMembers, loadedInvitations] = await Promise.all([
+        listMembers(workspaceId),
+        canManage ? listWorkspaceInvitations(workspaceId) : Promise.resolve([]),
+      ])
+      setMembers(loadedMembers)
+      setInvitations(loadedInvitations)
+    } catch (error) {
+      console.error("Failed to load workspace members:", error)
+      setStatus({ success: false, message: "Failed to load the members. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workspaceId, canManage])
+
+  useEffect(() => {
+    setStatus(null)
+    loadMembers()
+  }, [loadMembers])
+
+  if (!activeWorkspace || !user) return null
+
+  const onSubmit = async (data: InvitationFormValues) => {
+    setIsInviting(true)
+    setStatus(null)
+
+    const email = data.email.trim().toLowerCase()
+    if (members.some((member) => member.expand?.user?.email?.toLowerCase() === email)) {
+      form.setError("email", { message: "This person is already a member" })
+      setIsInviting(false)
+      return
+    }
+
+    try {
+      const invitation = await inviteToWorkspace(activeWorkspace.id, user.id, email, data.role)
+      setInvitations((current) => [invitation, ...current])
+      form.reset()
+      setStatus({ success: true, message: `Invitation sent to ${invitation.email}.` })
+    } catch (err) {
+      const message = applyFormErrors(err, form)
+      if (message) setStatus({ success: false, message })
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setPendingAction(id)
+    setStatus(null)
+
+    try {
+      await action()
+    } catch (error) {
+      setStatus({ success: false, message: getErrorMessage(error) })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleRoleChange = (member: WorkspaceMember, role: AssignableWorkspaceRole) =>
+    runAction(member.id, async () => {
+      const updated = await updateMemberRole(member.id, role)
+      setMembers((current) => current.map((item) => (item.id === updated.id ? updated : item)))
+    })
+
+  const handleRemove = (member: WorkspaceMember) =>
+    runAction(member.id, async () => {
+      await removeMember(member.id)
+      setMembers((current) => current.filter((item) => item.id !== member.id))
+    })
+
+  const handleRevoke = (invitation: WorkspaceInvitation) =>
+    runAction(invitation.id, async () => {
+      await deleteInvitation(invitation.id)
+      setInvitations((current) => current.filter((item) => item.id !== invitation.id))
+    })
+
+  return (
+    <Card className="border-black">
+      <CardHeader className="border-b border-black">
+        <CardTitle>Members</CardTitle>
+        <CardDescription className="text-black">
+          {canManage
+            ? "Invite people by email and choose what they can do in this workspace."
+            : "People who have access to this workspace."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {status && (
+          <Alert
+            variant={status.success ? "default" : "destructive"}
+            className="border border-black bg-white text-black"
+          >
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {canManage && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-2 sm:flex-row sm:items-start">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel className="sr-only">Email</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="email"
+                        placeholder="their.email@example.com"
+                        {...field}
+                        className="border-black focus:ring-black"
+                      />
+                    </FormControl>
+                    <FormMessage className="text-black" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem className="sm:w-32">
+                    <FormLabel className="sr-only">Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="border-black focus:ring-black">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ASSIGNABLE_WORKSPACE_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {WORKSPACE_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="bg-black text-white hover:bg-black/90" disabled={isInviting}>
+                {isInviting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                Invite
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-black" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-black">
+                <TableHead className="text-black">Member</TableHead>
+                <TableHead className="text-black">Role</TableHead>
+                {canManage && <TableHead className="text-right text-black">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => {
+                const memberUser = member.expand?.user
+                // The owner stays the owner, and members leave through the General card instead of removing themselves
+                const canEdit = canManage && member.role !== "owner" && member.user !== user.id
+
+                return (
+                  <TableRow key={member.id} className="border-black">
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <UserAvatar user={memberUser || null} />
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate font-medium">
+                            {memberUser?.name || memberUser?.email || "Unnamed member"}
+                            {member.user === user.id && " (you)"}
+                          </span>
+                          {memberUser?.name && memberUser.email && (
+                            <span className="truncate text-xs text-black/60">{memberUser.email}</span>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {canEdit ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => handleRoleChange(member, role as AssignableWorkspaceRole)}
+                          disabled={pendingAction === member.id}
+                        >
+                          <SelectTrigger className="w-32 border-black focus:ring-black">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ASSIGNABLE_WORKSPACE_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {WORKSPACE_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        WORKSPACE_ROLE_LABELS[member.role]
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(member)}
+                            className="text-black hover:bg-black/5"
+                            disabled={pendingAction === member.id}
+                            aria-label={`Remove ${memberUser?.name || memberUser?.email || "member"}`}
+                          >
+                            {pendingAction === member.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <UserMinus className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                )
+              })}
+              {invitations.map((invitation) => (
+                <TableRow key={invitation.id} className="border-black text-black/60">
+                  <TableCell>
+                    <div className="flex min-w-0 flex-col">
+                      <span className="truncate">{invitation.email}</span>
+                      <span className="text-xs">
+                        Invited · expires {format(parsePocketBaseDate(invitation.expiresAt), "PP")}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{WORKSPACE_ROLE_LABELS[invitation.role]}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(invitation)}
+                      className="text-black hover:bg-black/5"
+                      disabled={pendingAction === invitation.id}
+                      aria-label={`Revoke invitation for ${invitation.email}`}
+                    >
+                      {pendingAction === invitation.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <X className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
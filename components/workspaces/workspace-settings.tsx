@@ -0,0 +1,56 @@
+"use client"
+
+import { useState } from "react"
+import { Building2, Loader2, Plus } from "lucide-react"
+import { useWorkspace } from "@/context/workspace-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CreateWorkspaceDialog } from "@/components/workspaces/create-workspace-dialog"
+import { ReceivedInvitationsCard } from "@/components/workspaces/received-invitations-card"
+import { WorkspaceGeneralCard } from "@/components/workspaces/workspace-general-card"
+import { WorkspaceMembersCard } from "@/components/workspaces/workspace-members-card"
+
+// Settings of the active workspace; switch workspace from the sidebar to manage another one
+export function WorkspaceSettings() {
+  const { activeWorkspace, isLoading } = useWorkspace()
+  const [showCreate, setShowCreate] = useState(false)
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-black" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <ReceivedInvitationsCard />
+
+      {activeWorkspace ? (
+        <>
+          <WorkspaceGeneralCard />
+          <WorkspaceMembersCard />
+        </>
+      ) : (
+        <Card className="border-black">
+          <CardHeader className="border-b border-black">
+            <CardTitle>No workspace yet</CardTitle>
+            <CardDescription className="text-black">
+              Create a workspace to start working with your team, or accept an invitation to join one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center gap-4 pt-6">
+            <Building2 className="h-10 w-10 text-black" />
+            <Button onClick={() => setShowCreate(true)} className="bg-black text-white hover:bg-black/90">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Workspace
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <CreateWorkspaceDialog open={showCreate} onOpenChange={setShowCreate} />
+    </div>
+  )
+}
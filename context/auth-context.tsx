@@ -4,96 +4,299 @@ import type React from "react"
 
 import { createContext, useContext, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
+import { ClientResponseError, type AuthProviderInfo, type RecordAuthResponse, type RecordModel } from "pocketbase"
+import { useTokenRefresh } from "@/hooks/use-token-refresh"
+import {
+  clearStoredAccounts,
+  getStoredAccounts,
+  onStoredAccountsChange,
+  removeStoredAccount,
+  saveStoredAccount,
+} from "@/lib/accounts"
+import {
+  ADD_ACCOUNT_PARAM,
+  GUEST_ONLY_ROUTES,
+  PROTECTED_ROUTES,
+  VERIFY_EMAIL_ROUTE,
+  matchesRoute,
+} from "@/lib/auth-cookie"
+import { deleteAccountData, type DeletionConfirmation } from "@/lib/account-data"
+import { startAuthSync } from "@/lib/auth-sync"
+import {
+  clearImpersonation,
+  getImpersonation,
+  startImpersonation as startImpersonationSession,
+  stopImpersonation as stopImpersonationSession,
+  type Impersonation,
+} from "@/lib/impersonation"
+import { recordLoginEvent } from "@/lib/login-events"
+import { completeOAuthRedirect, signInWithOAuthPopup } from "@/lib/oauth"
+import { SESSION_CHECK_INTERVAL, trackSession } from "@/lib/sessions"
 import { pb } from "@/lib/pocketbase"
+import { Collections, type UsersResponse } from "@/lib/pocketbase-types"
+import { getRole, type Role } from "@/lib/roles"
 
-type User = {
-  id: string
-  email: string
-  name?: string
-  username?: string
-  avatar?: string
-  verified?: boolean
+// A users record, as generated from the collection schema. The username is only there on backends whose users
+// collection has one, e.g. to sign in with it.
+export type User = UsersResponse & { username?: string }
+
+// A password or OAuth2 sign-in that passed the first factor and is waiting for the email code.
+// No token is stored until the challenge is completed with verifyOtp.
+export type MfaChallenge = {
+  mfaId: string
+  // Where the code goes, null when the first factor doesn't say (OAuth2) and the user has to enter it
+  email: string | null
 }
 
+// Why the user was signed out, shown on the login page
+export type LogoutReason = "session-expired" | "idle" | "session-revoked"
+
 type AuthContextType = {
+  // The active account
   user: User | null
+  // Role of the active account, null when signed out
+  role: Role | null
+  // Every account signed in on this browser, including the active one
+  accounts: User[]
+  // Set while a superuser views the app as another user; the active account is then the impersonated one
+  impersonation: Impersonation | null
   isLoading: boolean
-  login: (email: string, password: string) => Promise<void>
-  register: (email: string, password: string, passwordConfirm: string, name: string) => Promise<void>
-  logout: () => void
+  mfaChallenge: MfaChallenge | null
+  login: (identity: string, password: string) => Promise<MfaChallenge | null>
+  // OAuth2 sign-in with the popup flow, or the end of the redirect flow on the callback page
+  loginWithOAuth2: (provider: AuthProviderInfo) => Promise<MfaChallenge | null>
+  completeOAuth2Redirect: (code: string, state: string) => Promise<MfaChallenge | null>
+  verifyOtp: (otpId: string, code: string) => Promise<void>
+  cancelMfa: () => void
+  // Create an account, with the code of the invite it was created from if any
+  register: (
+    email: string,
+    password: string,
+    passwordConfirm: string,
+    name: string,
+    inviteCode?: string,
+  ) => Promise<MfaChallenge | null>
+  switchAccount: (id: string) => boolean
+  addAccount: () => void
+  signOutAccount: (id: string, reason?: LogoutReason) => void
+  // Sign out of every account
+  logout: (reason?: LogoutReason) => void
+  // Permanently delete the active account and the data it owns
+  deleteAccount: (confirmation: DeletionConfirmation) => Promise<void>
   resendVerification: () => Promise<void>
   refreshVerificationStatus: () => Promise<boolean>
+  // Open a session for the user with the credentials of a superuser
+  startImpersonation: (userId: string, superuserEmail: string, superuserPassword: string) => Promise<void>
+  // Restore the session the impersonation started from
+  stopImpersonation: () => void
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
+// Auth records in the store and in stored accounts all come from the users collection. Older stored accounts may
+// miss fields added since, so each one falls back to the value an empty field has.
+const toUser = (record: RecordModel): User => ({
+  id: record.id,
+  collectionId: record.collectionId,
+  collectionName: Collections.Users,
+  email: record.email || "",
+  emailVisibility: Boolean(record.emailVisibility),
+  verified: Boolean(record.verified),
+  name: record.name || "",
+  avatar: record.avatar || "",
+  role: getRole(record.role),
+  disabled: Boolean(record.disabled),
+  invite: record.invite || "",
+  created: record.created || "",
+  updated: record.updated || "",
+  ...(record.username ? { username: record.username } : {}),
+})
+
+// PocketBase answers a first factor on an MFA-enabled collection with a 401 carrying the mfaId
+const getMfaId = (error: unknown): string | null => {
+  if (error instanceof ClientResponseError && error.status === 401 && error.response?.mfaId) {
+    return error.response.mfaId
+  }
+  return null
+}
+
+type AuthProviderProps = {
+  children: React.ReactNode
+  // Auth record read from the request cookie on the server, so the first render already knows the user
+  initialRecord?: RecordModel | null
+}
+
+export function AuthProvider({ children, initialRecord }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(initialRecord ? toUser(initialRecord) : null)
+  const [isLoading, setIsLoading] = useState(initialRecord === undefined)
+  const [accounts, setAccounts] = useState<User[]>([])
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(null)
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null)
   const router = useRouter()
 
+  const loadAccounts = () => {
+    setAccounts(getStoredAccounts().map((account) => toUser(account.record)))
+  }
+
   useEffect(() => {
-    // Check if user is already logged in
-    if (pb.authStore.isValid) {
-      const userData = pb.authStore.model
-      setUser({
-        id: userData?.id,
-        email: userData?.email,
-        name: userData?.name,
-        username: userData?.username,
-        avatar: userData?.avatar,
-        verified: userData?.verified,
-      })
-    }
-    setIsLoading(false)
+    // Report the session on sign-in, account switch and token refresh, not on every record update.
+    // The check interval reports it again, so revocations and lastActive don't wait for the next refresh.
+    let trackedToken = ""
+    const reportSession = (force = false) => {
+      const userId = pb.authStore.model?.id
+      if (!pb.authStore.isValid || !userId || (!force && pb.authStore.token === trackedToken)) return
+      trackedToken = pb.authStore.token
 
-    // Subscribe to auth state changes
-    pb.authStore.onChange(() => {
-      if (pb.authStore.isValid) {
-        const userData = pb.authStore.model
-        setUser({
-          id: userData?.id,
-          email: userData?.email,
-          name: userData?.name,
-          username: userData?.username,
-          avatar: userData?.avatar,
-          verified: userData?.verified,
+      trackSession(userId)
+        .then((isActive) => {
+          if (!isActive) signOutAccount(userId, "session-revoked")
         })
+        .catch((error) => console.error("Failed to report session:", error))
+    }
+
+    // The impersonated session isn't one of the user's own: it's neither stored as an account nor reported
+    const syncAuthState = () => {
+      const currentImpersonation = getImpersonation()
+      setImpersonation(currentImpersonation)
+
+      if (pb.authStore.isValid && pb.authStore.model) {
+        setUser(toUser(pb.authStore.model))
+        if (!currentImpersonation) {
+          saveStoredAccount(pb.authStore.token, pb.authStore.model)
+          reportSession()
+        }
       } else {
         setUser(null)
       }
+    }
+
+    // Check if user is already logged in
+    syncAuthState()
+    loadAccounts()
+    setIsLoading(false)
+
+    // Subscribe to auth state changes, keeping the active account's stored copy up to date
+    const unsubscribe = pb.authStore.onChange(() => {
+      syncAuthState()
+      loadAccounts()
     })
-  }, [])
+    const stopAccountsSync = onStoredAccountsChange(loadAccounts)
+    // Only visible tabs check, the others catch up through the auth sync once one of them signs out
+    const sessionCheckTimer = setInterval(() => {
+      if (document.visibilityState === "visible" && !getImpersonation()) reportSession(true)
+    }, SESSION_CHECK_INTERVAL)
 
-  // Note: We're not using this login function anymore since we're handling the OTP flow directly in the login form
-  const login = async (email: string, password: string) => {
-    try {
-      // This is now handled in the login form component with the OTP flow
-      await pb.collection("users").authWithPassword(email, password)
+    // Apply logins, logouts, refreshes and record updates made in other tabs
+    const stopAuthSync = startAuthSync((isSignedIn) => {
+      const pathname = window.location.pathname
+      const isAddingAccount = new URLSearchParams(window.location.search).has(ADD_ACCOUNT_PARAM)
 
-      // Check if email is verified
-      if (!pb.authStore.model?.verified) {
-        router.push("/verify-email")
-      } else {
+      if (!isSignedIn && matchesRoute(pathname, [...PROTECTED_ROUTES, VERIFY_EMAIL_ROUTE])) {
+        router.push("/login")
+      } else if (isSignedIn && matchesRoute(pathname, GUEST_ONLY_ROUTES) && !isAddingAccount) {
         router.push("/dashboard")
+      } else {
+        // Re-render server components with the new auth state
+        router.refresh()
       }
+    })
+
+    return () => {
+      unsubscribe()
+      stopAccountsSync()
+      stopAuthSync()
+      clearInterval(sessionCheckTimer)
+    }
+  }, [router])
+
+  // Password sign-in. Returns the MFA challenge when a second factor is required, null once signed in.
+  const login = async (identity: string, password: string) => {
+    try {
+      await pb.collection("users").authWithPassword(identity, password)
     } catch (error) {
-      throw error
+      const mfaId = getMfaId(error)
+      if (!mfaId) throw error
+
+      // The OTP can only be sent to an email address
+      if (!identity.includes("@")) {
+        throw new Error("Please sign in with your email address to receive a verification code.")
+      }
+
+      const challenge = { mfaId, email: identity }
+      setMfaChallenge(challenge)
+      return challenge
+    }
+
+    await recordLoginEvent("password")
+
+    // Check if email is verified
+    if (!pb.authStore.model?.verified) {
+      router.push("/verify-email")
+    } else {
+      router.push("/dashboard")
+    }
+    return null
+  }
+
+  // Shared by both OAuth2 flows. Returns the MFA challenge when a second factor is required, null once signed in.
+  const finishOAuth2Login = async (signIn: Promise<RecordAuthResponse<RecordModel>>) => {
+    let authData: RecordAuthResponse<RecordModel>
+    try {
+      authData = await signIn
+    } catch (error) {
+      const mfaId = getMfaId(error)
+      if (!mfaId) throw error
+
+      // The provider's email isn't necessarily the account's, so the login page asks where to send the code
+      const challenge = { mfaId, email: null }
+      setMfaChallenge(challenge)
+      return challenge
     }
+
+    // Replace the login or callback page, there is nothing to go back to
+    router.replace(authData.record.verified ? "/dashboard" : "/verify-email")
+    return null
+  }
+
+  const loginWithOAuth2 = (provider: AuthProviderInfo) => finishOAuth2Login(signInWithOAuthPopup(provider))
+
+  const completeOAuth2Redirect = (code: string, state: string) => {
+    return finishOAuth2Login(completeOAuthRedirect(code, state))
   }
 
-  const register = async (email: string, password: string, passwordConfirm: string, name: string) => {
+  // Complete an OTP sign-in, either on its own or as the second factor of a pending MFA challenge
+  const verifyOtp = async (otpId: string, code: string) => {
+    const method = mfaChallenge ? "mfa" : "otp"
+
+    await pb.collection("users").authWithOTP(otpId, code, mfaChallenge ? { mfaId: mfaChallenge.mfaId } : undefined)
+
+    setMfaChallenge(null)
+    await recordLoginEvent(method)
+  }
+
+  const cancelMfa = () => {
+    setMfaChallenge(null)
+  }
+
+  const register = async (
+    email: string,
+    password: string,
+    passwordConfirm: string,
+    name: string,
+    inviteCode?: string,
+  ) => {
     try {
-      // Create the user
+      // Create the user. The backend records the invite as used.
       await pb.collection("users").create({
         email,
         password,
         passwordConfirm,
         name,
+        invite: inviteCode || "",
       })
 
       // Log the user in
-      await login(email, password)
+      const challenge = await login(email, password)
 
       // Automatically send verification email
       if (user) {
@@ -102,6 +305,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         // Set the last sent time in localStorage
         localStorage.setItem("lastVerificationEmailSent", Date.now().toString())
       }
+
+      return challenge
     } catch (error) {
       throw error
     }
@@ -111,7 +316,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       if (user) {
         await pb.collection("users").requestVerification(user.email)
-        return { success: true }
+        return
       }
       throw new Error("No user logged in")
     } catch (error) {
@@ -129,14 +334,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const userData = await pb.collection("users").authRefresh()
 
       // Update the user state with fresh data
-      setUser({
-        id: userData.record.id,
-        email: userData.record.email,
-        name: userData.record.name,
-        username: userData.record.username,
-        avatar: userData.record.avatar,
-        verified: userData.record.verified,
-      })
+      setUser(toUser(userData.record))
 
       return userData.record.verified || false
     } catch (error) {
@@ -145,14 +343,115 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  const logout = () => {
+  // Make another stored account the active one. Returns false if its session has expired in the meantime.
+  const switchAccount = (id: string) => {
+    const account = getStoredAccounts().find((stored) => stored.record.id === id)
+    if (!account) {
+      loadAccounts()
+      return false
+    }
+
+    pb.authStore.save(account.token, account.record)
+    router.push(account.record.verified ? "/dashboard" : "/verify-email")
+    router.refresh()
+    return true
+  }
+
+  // Open the login flow while keeping the current sessions
+  const addAccount = () => {
+    router.push(`/login?${ADD_ACCOUNT_PARAM}=1`)
+  }
+
+  // Sign out of one account. If it was the active one, continue with another signed-in account if there is one.
+  const signOutAccount = (id: string, reason?: LogoutReason) => {
+    removeStoredAccount(id)
+
+    if (pb.authStore.model?.id !== id) {
+      loadAccounts()
+      return
+    }
+
+    const [nextAccount] = getStoredAccounts()
+    if (nextAccount) {
+      switchAccount(nextAccount.record.id)
+      return
+    }
+
+    pb.authStore.clear()
+    router.push(reason ? `/login?reason=${reason}` : "/login")
+  }
+
+  const logout = (reason?: LogoutReason) => {
+    clearImpersonation()
+    clearStoredAccounts()
+    pb.authStore.clear()
+    router.push(reason ? `/login?reason=${reason}` : "/login")
+  }
+
+  // Throws with a description of what was kept when the deletion fails, leaving the user signed in
+  const deleteAccount = async (confirmation: DeletionConfirmation) => {
+    const record = pb.authStore.record
+    if (!record) return
+
+    await deleteAccountData(record.id, confirmation)
+
+    removeStoredAccount(record.id)
     pb.authStore.clear()
-    router.push("/login")
+    router.push("/goodbye")
+  }
+
+  // Throws when the superuser credentials are wrong or the user can't be impersonated, leaving the session as it was
+  const startImpersonation = async (userId: string, superuserEmail: string, superuserPassword: string) => {
+    await startImpersonationSession(userId, superuserEmail, superuserPassword)
+    router.push("/dashboard")
+    router.refresh()
   }
 
+  const stopImpersonation = () => {
+    if (stopImpersonationSession()) {
+      router.push("/dashboard/admin/users")
+      router.refresh()
+    } else {
+      router.push("/login?reason=session-expired")
+    }
+  }
+
+  // Refresh the token shortly before it expires, and sign out once that's no longer possible
+  useTokenRefresh(() => {
+    if (getImpersonation()) {
+      stopImpersonation()
+    } else if (pb.authStore.model) {
+      signOutAccount(pb.authStore.model.id, "session-expired")
+    } else {
+      logout("session-expired")
+    }
+  })
+
   return (
     <AuthContext.Provider
-      value={{ user, isLoading, login, register, logout, resendVerification, refreshVerificationStatus }}
+      value={{
+        user,
+        role: user ? getRole(user.role) : null,
+        accounts,
+        impersonation,
+        isLoading,
+        mfaChallenge,
+        login,
+        loginWithOAuth2,
+        completeOAuth2Redirect,
+        verifyOtp,
+        cancelMfa,
+        register,
+        switchAccount,
+        addAccount,
+        signOutAccount,
+        logout,
+        deleteAccount,
+        resendVerification,
+        refreshVerificationStatus,
+        startImpersonation,
+        stopImpersonation,
+      }}
     >
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,134 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
+import { useAuth } from "@/context/auth-context"
+import {
+  createWorkspace as createWorkspaceRecord,
+  deleteWorkspace as deleteWorkspaceRecord,
+  getLastWorkspaceId,
+  listMemberships,
+  renameWorkspace as renameWorkspaceRecord,
+  saveLastWorkspaceId,
+  type Workspace,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from "@/lib/workspaces"
+
+type WorkspaceContextType = {
+  // The active account's workspaces, with its role in each
+  memberships: WorkspaceMembership[]
+  // The workspace data is scoped to, null while loading or when the user has none
+  activeWorkspace: Workspace | null
+  activeRole: WorkspaceRole | null
+  isLoading: boolean
+  switchWorkspace: (id: string) => void
+  // Create a workspace and make it the active one
+  createWorkspace: (name: string) => Promise<Workspace>
+  renameWorkspace: (id: string, name: string) => Promise<void>
+  deleteWorkspace: (id: string) => Promise<void>
+  // Load the memberships again, e.g. after joining or leaving a workspace
+  reloadWorkspaces: () => Promise<void>
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const [memberships, setMemberships] = useState<WorkspaceMembership[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const userId = user?.id
+
+  const reloadWorkspaces = useCallback(async () => {
+    if (!userId) {
+      setMemberships([])
+      setActiveId(null)
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      const loaded = await listMemberships(userId)
+      setMemberships(loaded)
+
+      // Keep the active workspace if the user still belongs to it, else go back to the last used one
+      setActiveId((current) => {
+        const ids = loaded.map((membership) => membership.workspace)
+        if (current && ids.includes(current)) return current
+        const lastId = getLastWorkspaceId(userId)
+        return lastId && ids.includes(lastId) ? lastId : ids[0] || null
+      })
+    } catch (error) {
+      console.error("Failed to load workspaces:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  // Each account has its own workspaces
+  useEffect(() => {
+    setIsLoading(true)
+    setActiveId(null)
+    reloadWorkspaces()
+  }, [reloadWorkspaces])
+
+  const switchWorkspace = (id: string) => {
+    if (!userId) return
+    setActiveId(id)
+    saveLastWorkspaceId(userId, id)
+  }
+
+  const createWorkspace = async (name: string) => {
+    if (!userId) throw new Error("No user logged in")
+
+    const workspace = await createWorkspaceRecord(userId, name)
+    await reloadWorkspaces()
+    switchWorkspace(workspace.id)
+    return workspace
+  }
+
+  const renameWorkspace = async (id: string, name: string) => {
+    const workspace = await renameWorkspaceRecord(id, name)
+    setMemberships((current) =>
+      current.map((membership) =>
+        membership.workspace === id ? { ...membership, expand: { workspace } } : membership,
+      ),
+    )
+  }
+
+  const deleteWorkspace = async (id: string) => {
+    await deleteWorkspaceRecord(id)
+    await reloadWorkspaces()
+  }
+
+  const activeMembership = memberships.find((membership) => membership.workspace === activeId) || null
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        memberships,
+        activeWorkspace: activeMembership?.expand?.workspace || null,
+        activeRole: activeMembership?.role || null,
+        isLoading,
+        switchWorkspace,
+        createWorkspace,
+        renameWorkspace,
+        deleteWorkspace,
+        reloadWorkspaces,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  )
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider")
+  }
+  return context
+}
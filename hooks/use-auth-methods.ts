@@ -0,0 +1,31 @@
+import * as React from "react"
+import type { AuthMethodsList } from "pocketbase"
+import { pb } from "@/lib/pocketbase"
+
+// Fetch the auth methods enabled on the backend for the users collection
+export function useAuthMethods() {
+  const [authMethods, setAuthMethods] = React.useState<AuthMethodsList | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    pb.collection("users")
+      .listAuthMethods({ requestKey: null })
+      .then((methods) => {
+        if (!cancelled) setAuthMethods(methods)
+      })
+      .catch((error) => {
+        console.error("Failed to load auth methods:", error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { authMethods, isLoading }
+}
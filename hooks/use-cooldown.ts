@@ -0,0 +1,34 @@
+import * as React from "react"
+import { COOLDOWN_CHANGE_EVENT, getCooldownRemaining, isCooldownKey, type CooldownAction } from "@/lib/cooldown"
+
+// Seconds left before the action can be sent again for this email, kept in sync across components and tabs.
+// Start a cooldown with startCooldown or startCooldownFromError from lib/cooldown.
+export function useCooldown(action: CooldownAction, email: string | null | undefined) {
+  const [remaining, setRemaining] = React.useState(0)
+
+  React.useEffect(() => {
+    const update = () => setRemaining(email ? getCooldownRemaining(action, email) : 0)
+    const handleStorage = (event: StorageEvent) => {
+      if (isCooldownKey(event.key)) update()
+    }
+
+    update()
+    window.addEventListener(COOLDOWN_CHANGE_EVENT, update)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(COOLDOWN_CHANGE_EVENT, update)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [action, email])
+
+  // Tick from the stored expiry rather than decrementing, so a throttled background tab stays accurate
+  const isActive = remaining > 0
+  React.useEffect(() => {
+    if (!isActive || !email) return
+
+    const timer = setInterval(() => setRemaining(getCooldownRemaining(action, email)), 1000)
+    return () => clearInterval(timer)
+  }, [action, email, isActive])
+
+  return remaining
+}
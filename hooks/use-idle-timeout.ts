@@ -0,0 +1,78 @@
+import * as React from "react"
+
+// Minutes of inactivity before the user is signed out, configurable per deployment. Falls back to 30 when the
+// setting isn't a positive number, rather than never or immediately signing out.
+const IDLE_TIMEOUT_MINUTES = Number(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES || 30)
+const IDLE_TIMEOUT =
+  (Number.isFinite(IDLE_TIMEOUT_MINUTES) && IDLE_TIMEOUT_MINUTES > 0 ? IDLE_TIMEOUT_MINUTES : 30) * 60 * 1000
+// How long the warning is shown before signing out
+const WARNING_DURATION = 60 * 1000
+// Activity is written at most this often, it only needs to be precise to the warning countdown
+const ACTIVITY_WRITE_INTERVAL = 5 * 1000
+
+// Shared by every tab, so activity in one tab keeps the others alive
+const LAST_ACTIVITY_KEY = "lastActivityAt"
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const
+
+const getLastActivity = () => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY))
+  return Number.isFinite(stored) && stored > 0 ? stored : Date.now()
+}
+
+const recordActivity = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, Date.now().toString())
+}
+
+// Track user activity and call onIdle once the user has been inactive for the configured time.
+// Returns the seconds left while the warning should be shown, null otherwise.
+export function useIdleTimeout(onIdle: () => void) {
+  const [secondsLeft, setSecondsLeft] = React.useState<number | null>(null)
+  const onIdleRef = React.useRef(onIdle)
+  onIdleRef.current = onIdle
+
+  // While the warning is shown only an explicit choice keeps the session, so passive activity is ignored
+  const isWarningRef = React.useRef(false)
+
+  React.useEffect(() => {
+    recordActivity()
+
+    let lastWrite = Date.now()
+    const handleActivity = () => {
+      if (isWarningRef.current || Date.now() - lastWrite < ACTIVITY_WRITE_INTERVAL) return
+      lastWrite = Date.now()
+      recordActivity()
+    }
+
+    const checkIdle = () => {
+      const remaining = getLastActivity() + IDLE_TIMEOUT - Date.now()
+
+      isWarningRef.current = remaining <= WARNING_DURATION
+
+      if (remaining <= 0) {
+        clearInterval(timer)
+        onIdleRef.current()
+      } else if (remaining <= WARNING_DURATION) {
+        setSecondsLeft(Math.ceil(remaining / 1000))
+      } else {
+        setSecondsLeft(null)
+      }
+    }
+
+    const timer = setInterval(checkIdle, 1000)
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+
+    return () => {
+      clearInterval(timer)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+    }
+  }, [])
+
+  const stayActive = React.useCallback(() => {
+    recordActivity()
+    isWarningRef.current = false
+    setSecondsLeft(null)
+  }, [])
+
+  return { secondsLeft, stayActive }
+}
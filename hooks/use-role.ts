@@ -0,0 +1,13 @@
+import { useAuth } from "@/context/auth-context"
+import { isRoleAtLeast, roleHasPermission, type Permission, type Role } from "@/lib/roles"
+
+// Role checks for the active account. Both checks are false while signed out.
+export function useRole() {
+  const { role } = useAuth()
+
+  return {
+    role,
+    hasRole: (minimum: Role) => role !== null && isRoleAtLeast(role, minimum),
+    can: (permission: Permission) => role !== null && roleHasPermission(role, permission),
+  }
+}
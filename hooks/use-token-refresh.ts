@@ -0,0 +1,112 @@
+import * as React from "react"
+import { ClientResponseError, getTokenPayload } from "pocketbase"
+import { pb } from "@/lib/pocketbase"
+
+// Refresh this long before the token expires
+const REFRESH_MARGIN = 5 * 60 * 1000
+// Retry delays after a failed refresh: 5s, 10s, 20s... capped at 2 minutes
+const RETRY_BASE_DELAY = 5 * 1000
+const RETRY_MAX_DELAY = 2 * 60 * 1000
+// Longest delay setTimeout accepts, longer ones fire straight away; the timer is simply set again when it runs early
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+// Keep the auth token fresh for as long as the tab is open.
+// Calls onSessionExpired when the token expires or the backend refuses to refresh it.
+export function useTokenRefresh(onSessionExpired: () => void) {
+  const onSessionExpiredRef = React.useRef(onSessionExpired)
+  onSessionExpiredRef.current = onSessionExpired
+
+  React.useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let failures = 0
+    // Only report an expiry for sessions this tab has seen alive
+    let hadSession = false
+
+    const clearTimer = () => {
+      if (timer) clearTimeout(timer)
+      timer = undefined
+    }
+
+    const expire = () => {
+      clearTimer()
+      hadSession = false
+      onSessionExpiredRef.current()
+    }
+
+    const schedule = () => {
+      clearTimer()
+
+      const token = pb.authStore.token
+      if (!token) {
+        hadSession = false
+        return
+      }
+
+      const payload = getTokenPayload(token)
+      const expiresAt = (payload.exp || 0) * 1000
+      const msUntilExpiry = expiresAt - Date.now()
+      if (msUntilExpiry <= 0) {
+        if (hadSession) expire()
+        return
+      }
+      hadSession = true
+
+      // Hidden tabs don't refresh; the visibility listener reschedules when the tab comes back
+      if (document.visibilityState === "hidden") return
+
+      // Tokens issued by impersonation can't be refreshed, they just run out
+      const delay =
+        payload.refreshable === false
+          ? msUntilExpiry
+          : failures > 0
+            ? Math.min(RETRY_BASE_DELAY * 2 ** (failures - 1), RETRY_MAX_DELAY)
+            : Math.max(msUntilExpiry - REFRESH_MARGIN, 0)
+
+      const timerDelay = Math.min(delay, msUntilExpiry)
+      timer = timerDelay > MAX_TIMER_DELAY ? setTimeout(schedule, MAX_TIMER_DELAY) : setTimeout(refresh, timerDelay)
+    }
+
+    const refresh = async () => {
+      if (!pb.authStore.isValid) {
+        expire()
+        return
+      }
+
+      try {
+        // A successful refresh saves the new token, which reschedules through onChange
+        await pb.collection("users").authRefresh({ requestKey: "tokenRefresh" })
+      } catch (error) {
+        if (error instanceof ClientResponseError && [401, 403, 404].includes(error.status)) {
+          // The backend no longer accepts this session
+          expire()
+          return
+        }
+
+        console.error("Failed to refresh auth token:", error)
+        failures++
+        schedule()
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        clearTimer()
+      } else {
+        schedule()
+      }
+    }
+
+    const unsubscribe = pb.authStore.onChange(() => {
+      failures = 0
+      schedule()
+    })
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    schedule()
+
+    return () => {
+      clearTimer()
+      unsubscribe()
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [])
+}
@@ -0,0 +1,60 @@
+import * as React from "react"
+import type { RecordModel } from "pocketbase"
+import { useWorkspace } from "@/context/workspace-context"
+import { pb } from "@/lib/pocketbase"
+import { scopeToWorkspace } from "@/lib/workspaces"
+
+type WorkspaceRecordsOptions = {
+  // Further conditions, combined with the workspace scope
+  filter?: string
+  sort?: string
+  expand?: string
+}
+
+// List the records of a workspace data collection (see lib/workspaces) in the active workspace.
+// Loads again whenever the user switches workspace.
+export function useWorkspaceRecords<T extends RecordModel = RecordModel>(
+  collection: string,
+  { filter, sort, expand }: WorkspaceRecordsOptions = {},
+) {
+  const { activeWorkspace } = useWorkspace()
+  const [records, setRecords] = React.useState<T[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<unknown>(null)
+  const [version, setVersion] = React.useState(0)
+
+  const workspaceId = activeWorkspace?.id
+
+  React.useEffect(() => {
+    if (!workspaceId) {
+      setRecords([])
+      setIsLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    pb.collection(collection)
+      .getFullList<T>({ filter: scopeToWorkspace(workspaceId, filter), sort, expand, requestKey: null })
+      .then((items) => {
+        if (!cancelled) setRecords(items)
+      })
+      .catch((err) => {
+        console.error(`Failed to load ${collection}:`, err)
+        if (!cancelled) setError(err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [collection, workspaceId, filter, sort, expand, version])
+
+  const reload = React.useCallback(() => setVersion((current) => current + 1), [])
+
+  return { records, isLoading, error, reload }
+}
@@ -0,0 +1,58 @@
+import PocketBase, { BaseAuthStore, ClientResponseError } from "pocketbase"
+import { INVITES_COLLECTION } from "@/lib/invites"
+import { LOGIN_EVENTS_COLLECTION } from "@/lib/login-events"
+import { pb } from "@/lib/pocketbase"
+import { SESSIONS_COLLECTION } from "@/lib/sessions"
+import { WORKSPACES_COLLECTION } from "@/lib/workspaces"
+
+export type OwnedCollection = {
+  // Collection name
+  collection: string
+  // Relation field pointing at the owning user
+  field: string
+  // Shown to the user when explaining what is removed or exported
+  label: string
+  // File fields whose uploads are included in data exports
+  fileFields?: string[]
+}
+
+// Collections holding records that belong to a user. They are removed together with the account,
+// so each one needs its relation field to cascade on delete.
+export const OWNED_COLLECTIONS: OwnedCollection[] = [
+  { collection: SESSIONS_COLLECTION, field: "user", label: "Active sessions" },
+  {
+    collection: LOGIN_EVENTS_COLLECTION,
+    field: "user",
+    label: "Login history",
+  },
+  { collection: INVITES_COLLECTION, field: "createdBy", label: "Invites you created" },
+  { collection: WORKSPACES_COLLECTION, field: "owner", label: "Workspaces you own" },
+]
+
+// File fields of the users collection included in data exports
+export const USER_FILE_FIELDS = ["avatar"]
+
+// Client that doesn't share the app's auth store, so re-authenticating leaves the current session alone
+const createIsolatedClient = () => new PocketBase(pb.baseURL, new BaseAuthStore())
+
+// Send a one-time code to the user's email, for accounts that have no password to confirm with
+export const requestVerificationCode = async (email: string) => {
+  const result = await createIsolatedClient().collection("users").requestOTP(email)
+  return result.otpId
+}
+
+// What the backend accepts as proof that the account holder asked for the deletion
+export type DeletionConfirmation = { password: string } | { otpId: string; otp: string }
+
+// Delete the user record along with every record it owns in OWNED_COLLECTIONS.
+// The backend checks the confirmation and removes everything in one transaction (see pb_hooks/account_deletion.pb.js),
+// so a failure deletes nothing. A rejected confirmation is thrown as is, with the password or otp field error.
+export const deleteAccountData = async (userId: string, confirmation: DeletionConfirmation) => {
+  try {
+    await pb.collection("users").delete(userId, { body: confirmation, requestKey: null })
+  } catch (error) {
+    if (error instanceof ClientResponseError && error.status === 400) throw error
+    console.error("Failed to delete account:", error)
+    throw new Error("Nothing was deleted: your account couldn't be removed. Please try again or contact support.")
+  }
+}
@@ -0,0 +1,61 @@
+import { isTokenExpired, type RecordModel } from "pocketbase"
+
+// Every account signed in on this browser. The active one also lives in pb.authStore (and its cookie).
+const ACCOUNTS_KEY = "pocketbase_accounts"
+
+export type StoredAccount = {
+  token: string
+  record: RecordModel
+}
+
+// Helper function to read the stored accounts, dropping the ones whose token has expired
+export const getStoredAccounts = (): StoredAccount[] => {
+  try {
+    const accounts: StoredAccount[] = JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || "[]")
+    return accounts.filter((account) => account.token && account.record?.id && !isTokenExpired(account.token))
+  } catch (error) {
+    console.error("Failed to read stored accounts:", error)
+    localStorage.removeItem(ACCOUNTS_KEY)
+    return []
+  }
+}
+
+const writeStoredAccounts = (accounts: StoredAccount[]) => {
+  if (accounts.length > 0) {
+    localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts))
+  } else {
+    localStorage.removeItem(ACCOUNTS_KEY)
+  }
+}
+
+// Add an account, or update its token and record if it's already stored
+export const saveStoredAccount = (token: string, record: RecordModel) => {
+  const accounts = getStoredAccounts()
+  const index = accounts.findIndex((account) => account.record.id === record.id)
+
+  if (index === -1) {
+    accounts.push({ token, record })
+  } else {
+    accounts[index] = { token, record }
+  }
+
+  writeStoredAccounts(accounts)
+}
+
+export const removeStoredAccount = (id: string) => {
+  writeStoredAccounts(getStoredAccounts().filter((account) => account.record.id !== id))
+}
+
+export const clearStoredAccounts = () => {
+  writeStoredAccounts([])
+}
+
+// Call back when another tab changes the stored accounts
+export const onStoredAccountsChange = (callback: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === ACCOUNTS_KEY) callback()
+  }
+
+  window.addEventListener("storage", handleStorage)
+  return () => window.removeEventListener("storage", handleStorage)
+}
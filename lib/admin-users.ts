@@ -0,0 +1,67 @@
+import { pb } from "@/lib/pocketbase"
+import type { UsersResponse } from "@/lib/pocketbase-types"
+import type { Role } from "@/lib/roles"
+
+// User administration for roles with the "users:manage" permission. Relies on these users collection rules:
+// list/view/update "... || @request.auth.role = 'admin'", and manage "@request.auth.role = 'admin'",
+// which lets admins change the email and verified fields of other users.
+// Disabled users are refused by the auth rule "disabled = false", and pb_hooks/disabled_users.pb.js invalidates the
+// tokens issued before, so open sessions end at their next check.
+
+export const USERS_PER_PAGE = 20
+
+export type VerifiedFilter = "all" | "verified" | "unverified"
+
+// Columns the list can be sorted by, descending when prefixed with "-"
+export type UserSortField = "email" | "name" | "created"
+export type UserSort = UserSortField | `-${UserSortField}`
+
+export const DEFAULT_USER_SORT: UserSort = "-created"
+
+export type UserListQuery = {
+  page: number
+  search: string
+  verified: VerifiedFilter
+  sort: UserSort
+}
+
+export type UserUpdate = {
+  name: string
+  email: string
+  verified: boolean
+  role: Role
+  disabled: boolean
+}
+
+const VERIFIED_FILTERS: Record<VerifiedFilter, string> = {
+  all: "",
+  verified: "verified = true",
+  unverified: "verified = false",
+}
+
+// Helper function to list one page of users, filtered and sorted by the backend
+export const listUsers = async ({ page, search, verified, sort }: UserListQuery) => {
+  const filters = [VERIFIED_FILTERS[verified]]
+  if (search) {
+    filters.push(pb.filter("(email ~ {:search} || name ~ {:search} || id = {:search})", { search }))
+  }
+
+  return pb.collection("users").getList(page, USERS_PER_PAGE, {
+    filter: filters.filter(Boolean).join(" && "),
+    sort,
+    // Typing in the search box replaces the previous request instead of racing it
+    requestKey: "admin-users",
+  })
+}
+
+export const updateUser = async (id: string, data: Partial<UserUpdate>): Promise<UsersResponse> => {
+  return pb.collection("users").update(id, data)
+}
+
+export const sendVerificationEmail = async (email: string) => {
+  await pb.collection("users").requestVerification(email)
+}
+
+export const sendPasswordResetEmail = async (email: string) => {
+  await pb.collection("users").requestPasswordReset(email)
+}
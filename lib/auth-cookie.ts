@@ -0,0 +1,20 @@
+// Name of the cookie holding the serialized PocketBase auth state.
+// Shared by the browser client and the middleware, so it must not import PocketBase itself.
+export const AUTH_COOKIE_NAME = "pb_auth"
+
+// Routes that require a signed-in and verified user
+export const PROTECTED_ROUTES = ["/dashboard"]
+
+// Routes that only make sense for anonymous visitors
+export const GUEST_ONLY_ROUTES = ["/login", "/register"]
+
+// Query parameter that lets signed-in users open the login flow to add another account
+export const ADD_ACCOUNT_PARAM = "addAccount"
+
+// Page unverified users are sent to until they confirm their email
+export const VERIFY_EMAIL_ROUTE = "/verify-email"
+
+// Helper function to check if a pathname falls under one of the given route prefixes
+export const matchesRoute = (pathname: string, routes: string[]) => {
+  return routes.some((route) => pathname === route || pathname.startsWith(`${route}/`))
+}
@@ -0,0 +1,39 @@
+import type { AuthMethodsList } from "pocketbase"
+
+// How the login form signs users in, derived from the backend's auth settings
+//  - password: identity + password
+//  - password-mfa: identity + password, then an email code as the second factor
+//  - otp: email code only, no password
+//  - oauth2: provider buttons only
+export type LoginMode = "password" | "password-mfa" | "otp" | "oauth2"
+
+// Used when the auth methods can't be loaded, matching PocketBase's default users collection
+export const FALLBACK_IDENTITY_FIELDS = ["email"]
+
+export const getLoginMode = (authMethods: AuthMethodsList | null): LoginMode => {
+  if (!authMethods) return "password"
+
+  if (authMethods.password.enabled) {
+    return authMethods.mfa.enabled && authMethods.otp.enabled ? "password-mfa" : "password"
+  }
+
+  if (authMethods.otp.enabled) return "otp"
+
+  return "oauth2"
+}
+
+export const getIdentityFields = (authMethods: AuthMethodsList | null): string[] => {
+  const fields = authMethods?.password.identityFields
+  return fields && fields.length > 0 ? fields : FALLBACK_IDENTITY_FIELDS
+}
+
+// Human readable label for the identity input, e.g. "Email or username"
+export const getIdentityLabel = (identityFields: string[]) => {
+  const label = identityFields.join(" or ").toLowerCase()
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+// OAuth2 providers to offer, empty when OAuth2 is disabled on the backend
+export const getOAuthProviders = (authMethods: AuthMethodsList | null) => {
+  return authMethods?.oauth2.enabled ? authMethods.oauth2.providers : []
+}
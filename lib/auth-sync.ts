@@ -0,0 +1,81 @@
+import type { AuthRecord } from "pocketbase"
+import { pb } from "@/lib/pocketbase"
+
+// Channel (or localStorage key, where BroadcastChannel isn't available) shared by all tabs of the app
+const AUTH_SYNC_CHANNEL = "pocketbase_auth_sync"
+
+type AuthSyncMessage = {
+  token: string
+  record: AuthRecord
+}
+
+// Mirror auth changes between tabs: login, logout, token refresh and auth record updates.
+// onRemoteChange is called after a change from another tab has been applied to this tab's store.
+export function startAuthSync(onRemoteChange: (isSignedIn: boolean) => void) {
+  // Set while applying a remote change so it isn't broadcast straight back
+  let isApplyingRemote = false
+
+  const applyRemote = (message: AuthSyncMessage) => {
+    if (
+      message.token === pb.authStore.token &&
+      JSON.stringify(message.record) === JSON.stringify(pb.authStore.record)
+    ) {
+      return
+    }
+
+    isApplyingRemote = true
+    try {
+      if (message.token) {
+        pb.authStore.save(message.token, message.record)
+      } else {
+        pb.authStore.clear()
+      }
+    } finally {
+      isApplyingRemote = false
+    }
+
+    onRemoteChange(pb.authStore.isValid)
+  }
+
+  const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(AUTH_SYNC_CHANNEL) : null
+
+  const handleMessage = (event: MessageEvent<AuthSyncMessage>) => applyRemote(event.data)
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== AUTH_SYNC_CHANNEL || !event.newValue) return
+    try {
+      applyRemote(JSON.parse(event.newValue))
+    } catch (error) {
+      console.error("Failed to apply auth change from another tab:", error)
+    }
+  }
+
+  const broadcast = () => {
+    if (isApplyingRemote) return
+
+    const message: AuthSyncMessage = { token: pb.authStore.token, record: pb.authStore.record }
+    if (channel) {
+      channel.postMessage(message)
+    } else {
+      // Storage events only fire in other tabs; the timestamp makes every write a change
+      localStorage.setItem(AUTH_SYNC_CHANNEL, JSON.stringify({ ...message, sentAt: Date.now() }))
+    }
+  }
+
+  const unsubscribe = pb.authStore.onChange(broadcast)
+  if (channel) {
+    channel.addEventListener("message", handleMessage)
+  } else {
+    window.addEventListener("storage", handleStorage)
+  }
+
+  return () => {
+    unsubscribe()
+    if (channel) {
+      channel.removeEventListener("message", handleMessage)
+      channel.close()
+    } else {
+      window.removeEventListener("storage", handleStorage)
+    }
+  }
+}
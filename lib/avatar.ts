@@ -0,0 +1,79 @@
+import { pb } from "@/lib/pocketbase"
+
+// Thumbnail sizes served for avatars. Each one must be listed in the "Thumb sizes" option
+// of the users collection's avatar field, otherwise PocketBase returns the original file.
+export const AVATAR_THUMBS = {
+  sm: "64x64",
+  md: "128x128",
+  lg: "256x256",
+} as const
+
+export type AvatarSize = keyof typeof AVATAR_THUMBS
+
+export const AVATAR_ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"]
+
+// Largest image accepted before cropping; the uploaded avatar is much smaller
+export const AVATAR_MAX_INPUT_SIZE = 10 * 1024 * 1024
+
+// Side of the square image uploaded after cropping
+const AVATAR_OUTPUT_SIZE = 512
+
+// Square area of the source image to keep, in source pixels
+export type CropArea = {
+  x: number
+  y: number
+  size: number
+}
+
+// Helper function to build the URL of a user's avatar thumbnail, or null when they have none
+export const getAvatarUrl = (user: { id: string; avatar?: string }, size: AvatarSize) => {
+  if (!user.avatar) return null
+  return pb.files.getURL({ id: user.id, collectionName: "users" }, user.avatar, { thumb: AVATAR_THUMBS[size] })
+}
+
+// Check a picked or dropped file before opening the crop dialog. Returns an error message, or null.
+export const validateAvatarFile = (file: File) => {
+  if (!AVATAR_ACCEPTED_TYPES.includes(file.type)) {
+    return "Please choose a JPEG, PNG, WebP or GIF image."
+  }
+  if (file.size > AVATAR_MAX_INPUT_SIZE) {
+    return "Please choose an image smaller than 10 MB."
+  }
+  return null
+}
+
+// Crop the area out of the image and scale it down on a canvas, so only a small file is uploaded
+export const renderAvatar = (image: HTMLImageElement, area: CropArea) => {
+  const outputSize = Math.min(AVATAR_OUTPUT_SIZE, Math.round(area.size))
+  const canvas = document.createElement("canvas")
+  canvas.width = outputSize
+  canvas.height = outputSize
+
+  const context = canvas.getContext("2d")
+  if (!context) {
+    return Promise.reject(new Error("Your browser can't process images."))
+  }
+
+  context.imageSmoothingQuality = "high"
+  context.drawImage(image, area.x, area.y, area.size, area.size, 0, 0, outputSize, outputSize)
+
+  return new Promise<Blob>((resolve, reject) => {
+    // Browsers that can't encode WebP fall back to PNG
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to process the image."))),
+      "image/webp",
+      0.9,
+    )
+  })
+}
+
+export const uploadAvatar = async (userId: string, image: Blob) => {
+  const formData = new FormData()
+  formData.append("avatar", image, `avatar.${image.type.split("/")[1] || "png"}`)
+  // Updating the signed-in user also refreshes the record in pb.authStore
+  await pb.collection("users").update(userId, formData)
+}
+
+export const removeAvatar = async (userId: string) => {
+  await pb.collection("users").update(userId, { avatar: null })
+}
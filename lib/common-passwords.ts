@@ -0,0 +1,329 @@
+// Passwords that top public breach corpora and "most common password" lists, lowercased.
+// Bundled so candidates can be checked entirely offline; nothing is ever sent anywhere.
+export const COMMON_PASSWORDS = [
+  "123456",
+  "password",
+  "12345678",
+  "qwerty",
+  "123456789",
+  "12345",
+  "1234",
+  "111111",
+  "1234567",
+  "dragon",
+  "123123",
+  "baseball",
+  "abc123",
+  "football",
+  "monkey",
+  "letmein",
+  "696969",
+  "shadow",
+  "master",
+  "666666",
+  "qwertyuiop",
+  "123321",
+  "mustang",
+  "1234567890",
+  "michael",
+  "654321",
+  "superman",
+  "1qaz2wsx",
+  "7777777",
+  "121212",
+  "000000",
+  "qazwsx",
+  "123qwe",
+  "killer",
+  "trustno1",
+  "jordan",
+  "jennifer",
+  "zxcvbnm",
+  "asdfgh",
+  "hunter",
+  "buster",
+  "soccer",
+  "harley",
+  "batman",
+  "andrew",
+  "tigger",
+  "sunshine",
+  "iloveyou",
+  "2000",
+  "charlie",
+  "robert",
+  "thomas",
+  "hockey",
+  "ranger",
+  "daniel",
+  "starwars",
+  "112233",
+  "george",
+  "computer",
+  "michelle",
+  "jessica",
+  "pepper",
+  "1111",
+  "zxcvbn",
+  "555555",
+  "11111111",
+  "131313",
+  "freedom",
+  "777777",
+  "pass",
+  "maggie",
+  "159753",
+  "aaaaaa",
+  "ginger",
+  "princess",
+  "joshua",
+  "cheese",
+  "amanda",
+  "summer",
+  "love",
+  "ashley",
+  "nicole",
+  "chelsea",
+  "matthew",
+  "access",
+  "yankees",
+  "987654321",
+  "dallas",
+  "austin",
+  "thunder",
+  "taylor",
+  "matrix",
+  "william",
+  "corvette",
+  "hello",
+  "martin",
+  "heather",
+  "secret",
+  "merlin",
+  "diamond",
+  "1234qwer",
+  "hammer",
+  "silver",
+  "222222",
+  "88888888",
+  "anthony",
+  "justin",
+  "test",
+  "bailey",
+  "q1w2e3r4t5",
+  "patrick",
+  "internet",
+  "scooter",
+  "orange",
+  "11111",
+  "golfer",
+  "cookie",
+  "richard",
+  "samantha",
+  "bigdog",
+  "guitar",
+  "jackson",
+  "whatever",
+  "mickey",
+  "chicken",
+  "sparky",
+  "snoopy",
+  "maverick",
+  "phoenix",
+  "camaro",
+  "peanut",
+  "morgan",
+  "welcome",
+  "falcon",
+  "cowboy",
+  "ferrari",
+  "samsung",
+  "andrea",
+  "smokey",
+  "steelers",
+  "joseph",
+  "mercedes",
+  "dakota",
+  "arsenal",
+  "eagles",
+  "melissa",
+  "boomer",
+  "booboo",
+  "spider",
+  "nascar",
+  "monster",
+  "tigers",
+  "yellow",
+  "xxxxxx",
+  "123123123",
+  "gateway",
+  "marina",
+  "diablo",
+  "bulldog",
+  "qwer1234",
+  "compaq",
+  "purple",
+  "banana",
+  "junior",
+  "hannah",
+  "123654",
+  "porsche",
+  "lakers",
+  "iceman",
+  "money",
+  "cowboys",
+  "987654",
+  "london",
+  "tennis",
+  "999999",
+  "ncc1701",
+  "coffee",
+  "scooby",
+  "0000",
+  "miller",
+  "boston",
+  "q1w2e3r4",
+  "brandon",
+  "yamaha",
+  "chester",
+  "mother",
+  "forever",
+  "johnny",
+  "edward",
+  "333333",
+  "oliver",
+  "redsox",
+  "player",
+  "nikita",
+  "knight",
+  "fender",
+  "barney",
+  "midnight",
+  "please",
+  "brandy",
+  "chicago",
+  "badboy",
+  "slayer",
+  "rangers",
+  "charles",
+  "angel",
+  "flower",
+  "rabbit",
+  "wizard",
+  "jasper",
+  "enter",
+  "rachel",
+  "chris",
+  "steven",
+  "winner",
+  "adidas",
+  "victoria",
+  "natasha",
+  "1q2w3e4r",
+  "jasmine",
+  "winter",
+  "prince",
+  "marine",
+  "fishing",
+  "cocacola",
+  "casper",
+  "james",
+  "232323",
+  "raiders",
+  "888888",
+  "marlboro",
+  "gandalf",
+  "asdfasdf",
+  "crystal",
+  "87654321",
+  "12344321",
+  "golden",
+  "8675309",
+  "changeme",
+  "admin",
+  "administrator",
+  "root",
+  "qwerty123",
+  "qwerty1",
+  "password1",
+  "password123",
+  "passw0rd",
+  "p@ssw0rd",
+  "welcome1",
+  "iloveyou1",
+  "princess1",
+  "abcd1234",
+  "abcdef",
+  "abcdefg",
+  "abcdefgh",
+  "asdf1234",
+  "zaq12wsx",
+  "1q2w3e",
+  "1qazxsw2",
+  "qweasd",
+  "qweasdzxc",
+  "asdasd",
+  "monkey1",
+  "dragon1",
+  "football1",
+  "baseball1",
+  "sunshine1",
+  "superman1",
+  "letmein1",
+  "shadow1",
+  "master1",
+  "login",
+  "guest",
+  "default",
+  "starwars1",
+  "pokemon",
+  "minecraft",
+  "liverpool",
+  "chelsea1",
+  "trustme",
+  "lovely",
+  "loveme",
+  "friends",
+  "family",
+  "babygirl",
+  "butterfly",
+  "sweety",
+  "flowers",
+  "december",
+  "january",
+  "october",
+  "november",
+  "september",
+  "spring",
+  "autumn",
+  "football12",
+  "qwertyui",
+  "asdfghjkl",
+  "zxcvbnm1",
+  "11223344",
+  "147258369",
+  "123454321",
+  "1password",
+  "mypassword",
+  "newpassword",
+  "secret1",
+  "security",
+  "letmein123",
+  "welcome123",
+  "admin123",
+  "root123",
+  "test123",
+  "pass123",
+  "pass1234",
+  "temp1234",
+  "qazwsxedc",
+  "google",
+  "facebook",
+  "linkedin",
+  "twitter",
+  "instagram",
+  "youtube",
+  "apple",
+  "microsoft",
+  "pocketbase",
+]
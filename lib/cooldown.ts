@@ -0,0 +1,70 @@
+import { ClientResponseError } from "pocketbase"
+
+// Requests that send an email or code and are throttled in the UI
+export type CooldownAction = "otp" | "password-reset" | "verification" | "email-change"
+
+// Seconds to wait after a successful request before the same one can be sent again
+export const COOLDOWN_SECONDS: Record<CooldownAction, number> = {
+  otp: 30,
+  "password-reset": 60,
+  verification: 30,
+  "email-change": 60,
+}
+
+// Fired on window when a cooldown starts, so every countdown in the tab picks it up
+export const COOLDOWN_CHANGE_EVENT = "cooldownchange"
+
+const KEY_PREFIX = "cooldown:"
+
+// Cooldowns are per action and per email, so another address isn't blocked by the last one
+const getKey = (action: CooldownAction, email: string) => `${KEY_PREFIX}${action}:${email.trim().toLowerCase()}`
+
+export const isCooldownKey = (key: string | null) => Boolean(key?.startsWith(KEY_PREFIX))
+
+// Whole seconds left before the action can be sent again for this email, 0 when it's allowed
+export const getCooldownRemaining = (action: CooldownAction, email: string) => {
+  if (!email) return 0
+
+  const key = getKey(action, email)
+  const expiresAt = Number(localStorage.getItem(key))
+  const remaining = Math.ceil((expiresAt - Date.now()) / 1000)
+
+  if (!Number.isFinite(remaining) || remaining <= 0) {
+    localStorage.removeItem(key)
+    return 0
+  }
+  return remaining
+}
+
+export const startCooldown = (action: CooldownAction, email: string, seconds = COOLDOWN_SECONDS[action]) => {
+  if (!email) return
+
+  localStorage.setItem(getKey(action, email), (Date.now() + seconds * 1000).toString())
+  window.dispatchEvent(new Event(COOLDOWN_CHANGE_EVENT))
+}
+
+// Seconds to wait from the Retry-After of a 429 response, either delay-seconds or an HTTP date.
+// lib/pocketbase.ts copies the header into the response body, since the SDK error doesn't keep headers.
+export const getRetryAfter = (error: unknown): number | null => {
+  if (!(error instanceof ClientResponseError) || error.status !== 429) return null
+
+  const retryAfter = error.response?.retryAfter
+  if (!retryAfter) return null
+
+  const seconds = /^\d+$/.test(retryAfter) ? Number(retryAfter) : (Date.parse(retryAfter) - Date.now()) / 1000
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : null
+}
+
+// Start a cooldown for a rate limited request. Returns false for any other error.
+export const startCooldownFromError = (action: CooldownAction, email: string, error: unknown) => {
+  if (!(error instanceof ClientResponseError) || error.status !== 429) return false
+
+  startCooldown(action, email, getRetryAfter(error) ?? COOLDOWN_SECONDS[action])
+  return true
+}
+
+// Countdown label, e.g. "45s" or "2:05"
+export const formatCooldown = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+}
@@ -0,0 +1,108 @@
+import { downloadZip } from "client-zip"
+import type PocketBase from "pocketbase"
+import type { RecordModel } from "pocketbase"
+import { OWNED_COLLECTIONS, USER_FILE_FIELDS, type OwnedCollection } from "@/lib/account-data"
+
+// Uploaded file of a record, fetched once the archive reaches it
+type FileEntry = {
+  name: string
+  record: RecordModel
+  fileName: string
+}
+
+// Records loaded per request while writing a collection's JSON
+const PAGE_SIZE = 200
+
+// File tokens are short-lived (3 minutes by default), so a new one is fetched once this old
+const FILE_TOKEN_MAX_AGE = 60 * 1000
+
+const encoder = new TextEncoder()
+
+const toJson = (value: unknown) => encoder.encode(JSON.stringify(value, null, 2))
+
+// Uploaded files of a record, for both single and multiple file fields
+const getRecordFiles = (record: RecordModel, fields: string[]): FileEntry[] => {
+  return fields.flatMap((field) => {
+    const value = record[field]
+    const fileNames: string[] = Array.isArray(value) ? value : value ? [value] : []
+
+    return fileNames.map((fileName) => ({
+      name: `files/${record.collectionName}/${record.id}/${fileName}`,
+      record,
+      fileName,
+    }))
+  })
+}
+
+// JSON array of the user's records in a collection, written one page at a time.
+// The files of each page are collected into fileEntries as the stream is read.
+const streamCollectionJson = (pb: PocketBase, owned: OwnedCollection, userId: string, fileEntries: FileEntry[]) => {
+  let page = 1
+  let isFirst = true
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const result = await pb.collection(owned.collection).getList(page, PAGE_SIZE, {
+        filter: pb.filter(`${owned.field} = {:userId}`, { userId }),
+        sort: "created,id",
+        skipTotal: true,
+        requestKey: null,
+      })
+
+      for (const record of result.items) {
+        controller.enqueue(encoder.encode(`${isFirst ? "[\n" : ",\n"}${JSON.stringify(record, null, 2)}`))
+        fileEntries.push(...getRecordFiles(record, owned.fileFields || []))
+        isFirst = false
+      }
+
+      if (result.items.length < PAGE_SIZE) {
+        controller.enqueue(encoder.encode(isFirst ? "[]" : "\n]"))
+        controller.close()
+      }
+      page++
+    },
+  })
+}
+
+// Each entry is only produced once the archive reaches it: collections are read page by page,
+// then their files go straight from the backend into the archive without being buffered.
+async function* streamEntries(pb: PocketBase, userId: string) {
+  // Protected files need a short-lived token in their URL
+  let fileToken = ""
+  let fileTokenIssuedAt = 0
+  const getFileToken = async () => {
+    if (Date.now() - fileTokenIssuedAt > FILE_TOKEN_MAX_AGE) {
+      fileToken = await pb.files.getToken({ requestKey: null })
+      fileTokenIssuedAt = Date.now()
+    }
+    return fileToken
+  }
+
+  const fetchFiles = async function* (fileEntries: FileEntry[]) {
+    for (const file of fileEntries) {
+      const url = pb.files.getURL(file.record, file.fileName, { token: await getFileToken() })
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${file.name} (${response.status})`)
+      }
+      yield { name: file.name, input: response }
+    }
+  }
+
+  const user = await pb.collection("users").getOne(userId, { requestKey: null })
+  yield { name: "account.json", input: toJson(user) }
+  yield* fetchFiles(getRecordFiles(user, USER_FILE_FIELDS))
+
+  for (const owned of OWNED_COLLECTIONS) {
+    const fileEntries: FileEntry[] = []
+    yield { name: `${owned.collection}.json`, input: streamCollectionJson(pb, owned, userId, fileEntries) }
+    // The archive has read the whole JSON by the time it asks for the next entry, so the files are all known
+    yield* fetchFiles(fileEntries)
+  }
+}
+
+// Build a ZIP with the user's record, their records in OWNED_COLLECTIONS and their uploaded files.
+// The archive is streamed: nothing is held in memory beyond the page or file being written.
+export function createDataExport(pb: PocketBase, userId: string) {
+  return downloadZip(streamEntries(pb, userId))
+}
@@ -0,0 +1,72 @@
+import { getTokenPayload } from "pocketbase"
+
+// Lifetime of the email change link in seconds, PocketBase's default unless the users collection changes it
+export const EMAIL_CHANGE_TOKEN_DURATION = Number(process.env.NEXT_PUBLIC_EMAIL_CHANGE_TOKEN_DURATION || 30 * 60)
+
+// Email changes waiting for confirmation, per user. PocketBase doesn't expose them, so only this browser knows.
+const PENDING_EMAIL_CHANGES_KEY = "pendingEmailChanges"
+
+// Fired on window when a pending change is saved or cleared in this tab
+export const PENDING_EMAIL_CHANGE_EVENT = "pendingemailchange"
+
+export type PendingEmailChange = {
+  newEmail: string
+  requestedAt: number
+  expiresAt: number
+}
+
+const getPendingEmailChanges = (): Record<string, PendingEmailChange> => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_EMAIL_CHANGES_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+const writePendingEmailChanges = (changes: Record<string, PendingEmailChange>) => {
+  if (Object.keys(changes).length > 0) {
+    localStorage.setItem(PENDING_EMAIL_CHANGES_KEY, JSON.stringify(changes))
+  } else {
+    localStorage.removeItem(PENDING_EMAIL_CHANGES_KEY)
+  }
+  window.dispatchEvent(new Event(PENDING_EMAIL_CHANGE_EVENT))
+}
+
+export const isPendingEmailChangeKey = (key: string | null) => key === PENDING_EMAIL_CHANGES_KEY
+
+// Helper function to get the user's pending change, dropping it once its link has expired
+export const getPendingEmailChange = (userId: string) => {
+  const changes = getPendingEmailChanges()
+  const change = changes[userId]
+  if (!change) return null
+
+  if (change.expiresAt <= Date.now()) {
+    delete changes[userId]
+    writePendingEmailChanges(changes)
+    return null
+  }
+  return change
+}
+
+// Record a change right after requestEmailChange succeeds, replacing any earlier one since its link is superseded
+export const savePendingEmailChange = (userId: string, newEmail: string) => {
+  const requestedAt = Date.now()
+  writePendingEmailChanges({
+    ...getPendingEmailChanges(),
+    [userId]: { newEmail, requestedAt, expiresAt: requestedAt + EMAIL_CHANGE_TOKEN_DURATION * 1000 },
+  })
+}
+
+export const clearPendingEmailChange = (userId: string) => {
+  const changes = getPendingEmailChanges()
+  if (!changes[userId]) return
+
+  delete changes[userId]
+  writePendingEmailChanges(changes)
+}
+
+// Clear the change an email change token belongs to, once it's confirmed or has expired
+export const clearPendingEmailChangeForToken = (token: string) => {
+  const { id } = getTokenPayload(token)
+  if (typeof id === "string") clearPendingEmailChange(id)
+}
@@ -0,0 +1,112 @@
+import { ClientResponseError } from "pocketbase"
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form"
+
+// Messages for PocketBase validation codes. Placeholders like {min} are filled from the error's params.
+// Keyed by code so the whole table can be swapped for a translated one.
+export const VALIDATION_MESSAGES: Record<string, string> = {
+  validation_required: "This field is required.",
+  validation_nil_or_not_empty_required: "This field is required.",
+  validation_not_unique: "This value is already in use.",
+  validation_is_email: "Please enter a valid email address.",
+  validation_invalid_email: "Please enter a valid email address.",
+  validation_email_domain_not_allowed: "Email addresses from this domain aren't allowed.",
+  validation_length_too_short: "Must be at least {min} characters.",
+  validation_length_too_long: "Must be at most {max} characters.",
+  validation_length_out_of_range: "Must be between {min} and {max} characters.",
+  validation_min_text_constraint: "Must be at least {minNum} characters.",
+  validation_max_text_constraint: "Must be at most {maxNum} characters.",
+  validation_match_invalid: "This value isn't in the expected format.",
+  validation_values_mismatch: "The values don't match.",
+  validation_invalid_old_password: "Your current password is incorrect.",
+  validation_invalid_password: "Incorrect password.",
+  validation_invalid_otp: "The code is invalid or has expired.",
+  validation_invalid_token: "This link is invalid or has expired.",
+  validation_invalid_mime_type: "This file type isn't supported.",
+  validation_file_size_limit: "This file is too large.",
+}
+
+// Messages for a code on a specific form field, taking precedence over VALIDATION_MESSAGES
+export const FIELD_VALIDATION_MESSAGES: Record<string, string> = {
+  "email.validation_not_unique": "An account with this email already exists.",
+  "username.validation_not_unique": "This username is taken.",
+}
+
+// Messages for errors that don't belong to a field, by HTTP status. 0 is a network failure.
+export const STATUS_MESSAGES: Record<number, string> = {
+  0: "We couldn't reach the server. Please check your connection and try again.",
+  400: "Please check the details you entered and try again.",
+  401: "Your session has expired. Please sign in again.",
+  403: "You don't have permission to do that.",
+  404: "We couldn't find what you were looking for.",
+  429: "Too many attempts. Please wait a moment and try again.",
+}
+
+const DEFAULT_MESSAGE = "An unexpected error occurred. Please try again."
+
+export type FormErrorOptions = {
+  // PocketBase field names that differ from the form's, e.g. { newEmail: "email" }
+  fields?: Record<string, string>
+  // Banner messages for this form, by HTTP status, taking precedence over STATUS_MESSAGES
+  messages?: Partial<Record<number, string>>
+}
+
+type FieldError = {
+  code?: string
+  message?: string
+  params?: Record<string, unknown>
+}
+
+const interpolate = (template: string, params: Record<string, unknown> = {}) => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder))
+}
+
+// Human friendly message for one field error, falling back to the backend's own message for unknown codes
+export const getValidationMessage = (field: string, error: FieldError) => {
+  const template =
+    (error.code && (FIELD_VALIDATION_MESSAGES[`${field}.${error.code}`] || VALIDATION_MESSAGES[error.code])) || null
+  return template ? interpolate(template, error.params) : error.message || VALIDATION_MESSAGES.validation_required
+}
+
+// Message to show in a banner for an error that isn't attached to a form field
+export const getErrorMessage = (error: unknown, options: FormErrorOptions = {}) => {
+  if (!(error instanceof ClientResponseError)) {
+    return error instanceof Error && error.message ? error.message : DEFAULT_MESSAGE
+  }
+
+  return options.messages?.[error.status] || STATUS_MESSAGES[error.status] || DEFAULT_MESSAGE
+}
+
+// Put the field errors of a PocketBase response on the matching form fields with setError.
+// Returns the message for the banner alert, or null when every error could be shown on a field.
+export function applyFormErrors<T extends FieldValues>(
+  error: unknown,
+  form: UseFormReturn<T>,
+  options: FormErrorOptions = {},
+): string | null {
+  // Requests cancelled by the SDK (e.g. a newer one replaced them) aren't failures to report
+  if (error instanceof ClientResponseError && error.isAbort) return null
+
+  if (!(error instanceof ClientResponseError) || error.status !== 400) {
+    return getErrorMessage(error, options)
+  }
+
+  const fieldErrors: Record<string, FieldError> = error.response?.data || {}
+  const formFields = Object.keys(form.getValues())
+  const unmatched: string[] = []
+  let hasFocused = false
+
+  for (const [name, fieldError] of Object.entries(fieldErrors)) {
+    const field = options.fields?.[name] || name
+    const message = getValidationMessage(field, fieldError)
+
+    if (formFields.includes(field)) {
+      form.setError(field as Path<T>, { type: "server", message }, { shouldFocus: !hasFocused })
+      hasFocused = true
+    } else {
+      unmatched.push(message)
+    }
+  }
+
+  if (unmatched.length > 0) return unmatched.join(" ")
+  return Object.keys(fieldErrors).length > 0 ? null : getErrorMessage(error, options)
+}
@@ -0,0 +1,78 @@
+import PocketBase, { BaseAuthStore, isTokenExpired, type AuthRecord } from "pocketbase"
+import { pb } from "@/lib/pocketbase"
+
+// Support staff can view the app as another user with PocketBase's impersonate API, which only superusers may call.
+// The superuser credentials are used once in an isolated client and never stored; the staff member's own session
+// is kept aside and restored when the impersonation ends.
+const IMPERSONATION_KEY = "pocketbase_impersonation"
+
+// Lifetime of the impersonation token in seconds. It can't be refreshed, the impersonation ends when it expires.
+export const IMPERSONATION_DURATION = 60 * 60
+
+export type Impersonation = {
+  // Session to restore when the impersonation ends
+  original: {
+    token: string
+    record: AuthRecord
+  }
+  target: {
+    id: string
+    email: string
+    name: string
+  }
+  startedAt: number
+}
+
+// Helper function to get the running impersonation, if the store still holds the impersonated session
+export const getImpersonation = (): Impersonation | null => {
+  try {
+    const impersonation: Impersonation | null = JSON.parse(localStorage.getItem(IMPERSONATION_KEY) || "null")
+    if (!impersonation || pb.authStore.record?.id !== impersonation.target.id) return null
+    return impersonation
+  } catch {
+    return null
+  }
+}
+
+// Sign in as the user, keeping the current session aside until stopImpersonation
+export const startImpersonation = async (userId: string, superuserEmail: string, superuserPassword: string) => {
+  const client = new PocketBase(pb.baseURL, new BaseAuthStore())
+  await client.collection("_superusers").authWithPassword(superuserEmail, superuserPassword)
+  const impersonated = await client.collection("users").impersonate(userId, IMPERSONATION_DURATION)
+  const record = impersonated.authStore.record
+
+  if (!record) {
+    throw new Error("The backend didn't return the impersonated user.")
+  }
+
+  const impersonation: Impersonation = {
+    original: { token: pb.authStore.token, record: pb.authStore.record },
+    target: { id: record.id, email: record.email, name: record.name || "" },
+    startedAt: Date.now(),
+  }
+
+  // Written before switching the store, so listeners of the auth change already see the impersonation
+  localStorage.setItem(IMPERSONATION_KEY, JSON.stringify(impersonation))
+  pb.authStore.save(impersonated.authStore.token, record)
+}
+
+// Go back to the session the impersonation started from. Returns false when it has expired meanwhile.
+export const stopImpersonation = () => {
+  const impersonation = getImpersonation()
+  localStorage.removeItem(IMPERSONATION_KEY)
+  if (!impersonation) return false
+
+  const { token, record } = impersonation.original
+  if (!token || isTokenExpired(token)) {
+    pb.authStore.clear()
+    return false
+  }
+
+  pb.authStore.save(token, record)
+  return true
+}
+
+// Forget the impersonation without restoring anything, e.g. on logout
+export const clearImpersonation = () => {
+  localStorage.removeItem(IMPERSONATION_KEY)
+}
@@ -0,0 +1,90 @@
+import { ClientResponseError } from "pocketbase"
+import { pb } from "@/lib/pocketbase"
+import type { InvitesResponse } from "@/lib/pocketbase-types"
+import { parsePocketBaseDate } from "@/lib/utils"
+
+// Companion "invites" collection, one record per invite link. The record id is the invite code:
+//   createdBy (relation to users), email (email, binds the invite to one address), maxUses (number, 0 for unlimited),
+//   usedBy (relation to users, multiple), expiresAt (date), revoked (bool), created (autodate)
+// API rules: list "createdBy = @request.auth.id", view "" (knowing the code is what grants access),
+// create "@request.auth.id != '' && @request.auth.role != 'viewer' && createdBy = @request.auth.id && usedBy:length = 0",
+// update "createdBy = @request.auth.id && @request.body.usedBy:isset = false", delete as list.
+// The users collection records the invite it was created with in its "invite" relation, which users can't change.
+// pb_hooks/invites.pb.js adds new users to usedBy as they are created, and in invite mode rejects accounts created
+// without a valid invite.
+export const INVITES_COLLECTION = "invites"
+
+// Query parameter carrying the invite code on /register
+export const INVITE_PARAM = "invite"
+
+// Who can create an account:
+//  - open: anyone, an invite only pre-fills the form
+//  - invite: only visitors with a valid invite link
+export type RegistrationMode = "open" | "invite"
+
+export const REGISTRATION_MODE: RegistrationMode = process.env.NEXT_PUBLIC_REGISTRATION === "invite" ? "invite" : "open"
+
+export type Invite = InvitesResponse
+
+export type InviteStatus = "active" | "revoked" | "expired" | "used"
+
+export type InviteOptions = {
+  email?: string
+  // 0 for unlimited
+  maxUses: number
+  // Days until the invite expires, 0 for never
+  expiresInDays: number
+}
+
+export const getInviteStatus = (invite: Invite): InviteStatus => {
+  if (invite.revoked) return "revoked"
+  if (invite.expiresAt && parsePocketBaseDate(invite.expiresAt).getTime() <= Date.now()) return "expired"
+  if (invite.maxUses > 0 && invite.usedBy.length >= invite.maxUses) return "used"
+  return "active"
+}
+
+const INVITE_ERRORS: Record<Exclude<InviteStatus, "active">, string> = {
+  revoked: "This invite has been revoked.",
+  expired: "This invite has expired.",
+  used: "This invite has already been used.",
+}
+
+// Look up an invite by its code. Returns the invite when it can still be redeemed, or why it can't.
+export const checkInvite = async (code: string): Promise<{ invite: Invite | null; error: string | null }> => {
+  try {
+    const invite = await pb.collection("invites").getOne(code, { requestKey: null })
+    const status = getInviteStatus(invite)
+    return status === "active" ? { invite, error: null } : { invite: null, error: INVITE_ERRORS[status] }
+  } catch (error) {
+    if (error instanceof ClientResponseError && error.status === 404) {
+      return { invite: null, error: "This invite link is invalid." }
+    }
+    throw error
+  }
+}
+
+export const getInviteUrl = (code: string) => {
+  return `${window.location.origin}/register?${INVITE_PARAM}=${encodeURIComponent(code)}`
+}
+
+// Helper function to list the user's invites that can still be redeemed, newest first
+export const listInvites = async (userId: string) => {
+  const invites = await pb.collection("invites").getFullList({
+    filter: pb.filter("createdBy = {:userId} && revoked = false", { userId }),
+    sort: "-created",
+  })
+  return invites.filter((invite) => getInviteStatus(invite) === "active")
+}
+
+export const createInvite = async (userId: string, { email, maxUses, expiresInDays }: InviteOptions) => {
+  return pb.collection("invites").create({
+    createdBy: userId,
+    email: email || "",
+    maxUses,
+    expiresAt: expiresInDays > 0 ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : "",
+  })
+}
+
+export const revokeInvite = async (id: string) => {
+  await pb.collection("invites").update(id, { revoked: true })
+}
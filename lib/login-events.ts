@@ -0,0 +1,67 @@
+import { pb } from "@/lib/pocketbase"
+import type { LoginEventsMethodOptions, LoginEventsResponse } from "@/lib/pocketbase-types"
+import { parsePocketBaseDate } from "@/lib/utils"
+
+// Companion "login_events" collection, one record per sign-in attempt:
+//   user (relation to users), identity (text), method (select), success (bool),
+//   ip (text), userAgent (text), created (autodate)
+// API rules: list/view/delete "user = @request.auth.id", create "@request.auth.id != '' && user = @request.auth.id &&
+// success = true". Failed attempts are recorded by pb_hooks/login_events.pb.js, which knows the account they were for.
+export const LOGIN_EVENTS_COLLECTION = "login_events"
+
+export type LoginMethod = LoginEventsMethodOptions
+
+export type LoginEvent = LoginEventsResponse
+
+// sessionStorage flag read by the dashboard's new device banner
+const NEW_DEVICE_KEY = "newDeviceSignIn"
+
+// An auth origin created this recently belongs to the sign-in that just happened
+const NEW_ORIGIN_WINDOW = 60 * 1000
+
+// Record the sign-in that just succeeded. Goes through our route handler so the IP comes from the request.
+// Never throws: losing a history entry must not break the sign-in itself.
+export const recordLoginEvent = async (method: LoginMethod) => {
+  try {
+    await fetch("/api/login-events", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ method }),
+    })
+
+    await detectNewDevice()
+  } catch (error) {
+    console.error("Failed to record login event:", error)
+  }
+}
+
+// PocketBase remembers the devices each user signed in from in _authOrigins.
+// A fresh origin on an account that already had others means this device hasn't been seen before.
+const detectNewDevice = async () => {
+  const userId = pb.authStore.record?.id
+  if (!userId) return
+
+  const origins = await pb.collection("_authOrigins").getList(1, 1, {
+    filter: pb.filter("recordRef = {:userId}", { userId }),
+    sort: "-created",
+    requestKey: null,
+  })
+
+  const [latest] = origins.items
+  const isNewOrigin = latest && Date.now() - parsePocketBaseDate(latest.created).getTime() < NEW_ORIGIN_WINDOW
+
+  if (isNewOrigin && origins.totalItems > 1) {
+    sessionStorage.setItem(NEW_DEVICE_KEY, "1")
+  }
+}
+
+// Helper function to read and clear the new device flag
+export const takeNewDeviceAlert = () => {
+  const isNewDevice = sessionStorage.getItem(NEW_DEVICE_KEY) === "1"
+  sessionStorage.removeItem(NEW_DEVICE_KEY)
+  return isNewDevice
+}
+
+export const listLoginEvents = (limit = 20) => {
+  return pb.collection(LOGIN_EVENTS_COLLECTION).getList<LoginEvent>(1, limit, { sort: "-created" })
+}
@@ -0,0 +1,80 @@
+import type { AuthProviderInfo, RecordAuthResponse, RecordModel } from "pocketbase"
+import { recordLoginEvent } from "@/lib/login-events"
+import { pb } from "@/lib/pocketbase"
+
+// localStorage key holding the provider state between the redirect and the callback page
+const OAUTH_PROVIDER_KEY = "oauth2_provider"
+
+export const OAUTH_CALLBACK_PATH = "/oauth-callback"
+
+const getRedirectUrl = () => `${window.location.origin}${OAUTH_CALLBACK_PATH}`
+
+// Sign in with the popup flow, handled entirely by the PocketBase SDK.
+// Both flows throw PocketBase's 401 with an mfaId when MFA is enabled, which the auth context turns into a challenge.
+export const signInWithOAuthPopup = async (provider: AuthProviderInfo) => {
+  const authData = await pb.collection("users").authWithOAuth2({ provider: provider.name })
+  await fillProfileFromProvider(authData)
+  await recordLoginEvent("oauth2")
+  return authData
+}
+
+// Sign in with the redirect flow: leave the app and come back to the callback page
+export const startOAuthRedirect = (provider: AuthProviderInfo) => {
+  localStorage.setItem(OAUTH_PROVIDER_KEY, JSON.stringify(provider))
+  window.location.href = provider.authURL + encodeURIComponent(getRedirectUrl())
+}
+
+// Finish the redirect flow with the code and state returned by the provider
+export const completeOAuthRedirect = async (code: string, state: string) => {
+  const storedProvider = localStorage.getItem(OAUTH_PROVIDER_KEY)
+  localStorage.removeItem(OAUTH_PROVIDER_KEY)
+
+  if (!storedProvider) {
+    throw new Error("No sign-in in progress. Please try again.")
+  }
+
+  const provider: AuthProviderInfo = JSON.parse(storedProvider)
+  if (provider.state !== state) {
+    throw new Error("The sign-in state doesn't match. Please try again.")
+  }
+
+  const authData = await pb
+    .collection("users")
+    .authWithOAuth2Code(provider.name, code, provider.codeVerifier, getRedirectUrl())
+  await fillProfileFromProvider(authData)
+  await recordLoginEvent("oauth2")
+  return authData
+}
+
+// Fill in the name and avatar of newly created users from the provider metadata
+const fillProfileFromProvider = async (authData: RecordAuthResponse<RecordModel>) => {
+  const meta = authData.meta
+  if (!meta?.isNew) return
+
+  const formData = new FormData()
+  if (meta.name && !authData.record.name) {
+    formData.append("name", meta.name)
+  }
+
+  if (meta.avatarURL) {
+    try {
+      const response = await fetch(meta.avatarURL)
+      if (response.ok) {
+        formData.append("avatar", await response.blob(), "avatar")
+      }
+    } catch (error) {
+      // The avatar is optional, don't fail the sign-in over it
+      console.error("Failed to fetch provider avatar:", error)
+    }
+  }
+
+  if ([...formData.keys()].length === 0) return
+
+  try {
+    await pb.collection("users").update(authData.record.id, formData)
+    // Refresh so the auth store holds the updated record
+    await pb.collection("users").authRefresh()
+  } catch (error) {
+    console.error("Failed to fill profile from provider:", error)
+  }
+}
@@ -0,0 +1,37 @@
+import { ClientResponseError } from "pocketbase"
+import { REGISTRATION_MODE } from "@/lib/invites"
+import { pb } from "@/lib/pocketbase"
+
+// What happens when an email without an account asks for a sign-in code:
+//  - register: nothing is created; the code screen points to the registration form, since the backend answers
+//    the same way whether the email has an account or not
+//  - auto-create: create a password-less account on the fly and send the code
+export type OtpNewAccountFlow = "register" | "auto-create"
+
+// Auto-created accounts have no invite, so invite-only deployments always go through the registration form
+export const OTP_NEW_ACCOUNT_FLOW: OtpNewAccountFlow =
+  process.env.NEXT_PUBLIC_OTP_NEW_ACCOUNTS === "auto-create" && REGISTRATION_MODE === "open"
+    ? "auto-create"
+    : "register"
+
+const isEmailTaken = (error: unknown) => {
+  return error instanceof ClientResponseError && error.response?.data?.email?.code === "validation_not_unique"
+}
+
+// Random password for auto-created accounts, which only ever sign in with email codes
+const generateUnusablePassword = () => {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Make sure an account exists for the email, creating a password-less one if needed
+export const ensureOtpAccount = async (email: string) => {
+  const password = generateUnusablePassword()
+
+  try {
+    await pb.collection("users").create({ email, password, passwordConfirm: password })
+  } catch (error) {
+    if (!isEmailTaken(error)) throw error
+  }
+}
@@ -0,0 +1,151 @@
+import type { z } from "zod"
+import { COMMON_PASSWORDS } from "@/lib/common-passwords"
+
+export type CharacterClass = "lowercase" | "uppercase" | "number" | "symbol"
+
+// Password rules enforced on register, reset and change. PocketBase itself only requires 8 characters.
+export const PASSWORD_POLICY = {
+  minLength: 8,
+  // Character classes every password must contain, e.g. ["uppercase", "number"]
+  requiredClasses: [] as CharacterClass[],
+  // Lowest accepted strength score, from 0 (very weak) to 4 (very strong)
+  minScore: 2,
+}
+
+export const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Strong", "Very strong"]
+
+const CHARACTER_CLASSES: { name: CharacterClass; label: string; pattern: RegExp; poolSize: number }[] = [
+  { name: "lowercase", label: "a lowercase letter", pattern: /[a-z]/, poolSize: 26 },
+  { name: "uppercase", label: "an uppercase letter", pattern: /[A-Z]/, poolSize: 26 },
+  { name: "number", label: "a number", pattern: /[0-9]/, poolSize: 10 },
+  { name: "symbol", label: "a symbol", pattern: /[^a-zA-Z0-9]/, poolSize: 33 },
+]
+
+// Entropy, in bits, needed to reach each score above 0
+const SCORE_THRESHOLDS = [25, 40, 60, 80]
+
+// Common substitutions undone before looking a password up, so "p@ssw0rd" counts as "password"
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+  "!": "i",
+}
+
+const COMMON_PASSWORD_SET = new Set(COMMON_PASSWORDS)
+
+// Words from the list that are long enough to be worth finding inside longer passwords
+const COMMON_WORDS = COMMON_PASSWORDS.filter((word) => word.length >= 4).sort((a, b) => b.length - a.length)
+
+// Details about the user that must not appear in their password
+export type PersonalInfo = {
+  email?: string
+  name?: string
+}
+
+export type PasswordCheck = {
+  // 0 to 4, see STRENGTH_LABELS
+  score: number
+  entropy: number
+  // Why the password is rejected, empty when it satisfies the policy
+  errors: string[]
+}
+
+const normalize = (password: string) => {
+  return password
+    .toLowerCase()
+    .split("")
+    .map((char) => LEET_SUBSTITUTIONS[char] || char)
+    .join("")
+}
+
+const isCommonPassword = (password: string) => {
+  return COMMON_PASSWORD_SET.has(password.toLowerCase()) || COMMON_PASSWORD_SET.has(normalize(password))
+}
+
+// Length that counts towards entropy: repeated characters and runs like "abc" or "321" add little
+const getEffectiveLength = (password: string) => {
+  let length = 0
+  for (let i = 0; i < password.length; i++) {
+    const code = password.charCodeAt(i)
+    const previous = password.charCodeAt(i - 1)
+    length += i > 0 && Math.abs(code - previous) <= 1 ? 0.25 : 1
+  }
+  return length
+}
+
+// Estimate the entropy of a password from its character pool and length.
+// A common word inside it counts as a single guess from the bundled list rather than as random characters.
+const estimateEntropy = (password: string) => {
+  if (!password) return 0
+  if (isCommonPassword(password)) return 0
+
+  const normalized = normalize(password)
+  const commonWord = COMMON_WORDS.find((word) => normalized.includes(word))
+  // Substitutions keep the length, so the match lines up with the original password
+  const matchIndex = commonWord ? normalized.indexOf(commonWord) : -1
+  const rest = commonWord ? password.slice(0, matchIndex) + password.slice(matchIndex + commonWord.length) : password
+
+  const poolSize = CHARACTER_CLASSES.filter((characterClass) => characterClass.pattern.test(password)).reduce(
+    (total, characterClass) => total + characterClass.poolSize,
+    0,
+  )
+
+  const wordEntropy = commonWord ? Math.log2(COMMON_PASSWORDS.length) : 0
+  return wordEntropy + getEffectiveLength(rest) * Math.log2(Math.max(poolSize, 1))
+}
+
+// Parts of the email and name long enough to matter, e.g. "jane.doe@example.com" gives "jane.doe", "jane" and "doe"
+const getPersonalTokens = ({ email, name }: PersonalInfo) => {
+  const localPart = email?.split("@")[0] || ""
+  return [localPart, ...localPart.split(/[^a-z0-9]+/i), ...(name?.split(/\s+/) || [])]
+    .map((token) => token.toLowerCase())
+    .filter((token) => token.length >= 3)
+}
+
+// Check a new password against PASSWORD_POLICY
+export const checkPassword = (password: string, personalInfo: PersonalInfo = {}): PasswordCheck => {
+  const entropy = estimateEntropy(password)
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropy >= threshold).length
+  const errors: string[] = []
+
+  if (password.length < PASSWORD_POLICY.minLength) {
+    errors.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters`)
+  }
+
+  for (const characterClass of CHARACTER_CLASSES) {
+    if (PASSWORD_POLICY.requiredClasses.includes(characterClass.name) && !characterClass.pattern.test(password)) {
+      errors.push(`Password must contain ${characterClass.label}`)
+    }
+  }
+
+  const lowerPassword = password.toLowerCase()
+  if (getPersonalTokens(personalInfo).some((token) => lowerPassword.includes(token))) {
+    errors.push("Password must not contain your name or email")
+  }
+
+  if (isCommonPassword(password)) {
+    errors.push("This password is too common, it appears in lists of breached passwords")
+  } else if (password.length >= PASSWORD_POLICY.minLength && score < PASSWORD_POLICY.minScore) {
+    errors.push("Password is too easy to guess, try a longer one or mix in other characters")
+  }
+
+  return { score, entropy, errors }
+}
+
+// Add the policy errors of a form's password to its zod issues, for use in superRefine
+export const refinePassword = (
+  ctx: z.RefinementCtx,
+  password: string,
+  personalInfo: PersonalInfo = {},
+  path: string[] = ["password"],
+) => {
+  for (const message of checkPassword(password, personalInfo).errors) {
+    ctx.addIssue({ code: "custom", message, path })
+  }
+}
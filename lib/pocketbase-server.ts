@@ -0,0 +1,50 @@
+import PocketBase, { getTokenPayload } from "pocketbase"
+import { cookies } from "next/headers"
+import { AUTH_COOKIE_NAME } from "@/lib/auth-cookie"
+import type { TypedPocketBase, UsersResponse } from "@/lib/pocketbase-types"
+
+// Build an isolated PocketBase client for the current request.
+// Never share it between requests: its auth store belongs to a single visitor.
+export async function createServerClient() {
+  const cookieStore = await cookies()
+  const pb = new PocketBase(process.env.NEXT_PUBLIC_BACKEND_URL) as TypedPocketBase
+
+  // Hydrate the auth store from the request cookie
+  pb.authStore.loadFromCookie(cookieStore.toString(), AUTH_COOKIE_NAME)
+
+  // Write refreshed auth back to the response
+  pb.authStore.onChange(() => {
+    try {
+      if (pb.authStore.isValid) {
+        const token = pb.authStore.token
+        cookieStore.set(AUTH_COOKIE_NAME, JSON.stringify({ token, record: pb.authStore.record }), {
+          path: "/",
+          httpOnly: false,
+          secure: process.env.NODE_ENV === "production",
+          sameSite: "lax",
+          expires: new Date(getTokenPayload(token).exp * 1000),
+        })
+      } else {
+        cookieStore.delete(AUTH_COOKIE_NAME)
+      }
+    } catch {
+      // Server Components can't set cookies; the browser client keeps the cookie up to date there
+    }
+  })
+
+  return pb
+}
+
+// Fetch the signed-in user's record from the backend, falling back to the copy stored in the cookie
+export async function getServerUser(pb: TypedPocketBase): Promise<UsersResponse | null> {
+  if (!pb.authStore.isValid || !pb.authStore.record) {
+    return null
+  }
+
+  try {
+    return await pb.collection("users").getOne(pb.authStore.record.id)
+  } catch (error) {
+    console.error("Failed to fetch user on the server:", error)
+    return pb.authStore.record as UsersResponse
+  }
+}
@@ -0,0 +1,186 @@
+// Generated by scripts/generate-pocketbase-types.mjs from pb_schema.json. Do not edit by hand, run "npm run typegen" instead.
+
+import type PocketBase from "pocketbase"
+import type { RecordService } from "pocketbase"
+
+export enum Collections {
+  Users = "users",
+  Sessions = "sessions",
+  LoginEvents = "login_events",
+  Invites = "invites",
+  Workspaces = "workspaces",
+  WorkspaceInvitations = "workspace_invitations",
+  WorkspaceMembers = "workspace_members",
+}
+
+export type IsoDateString = string
+export type RecordIdString = string
+export type GeoPoint = { lon: number; lat: number }
+// Shape of expand for collections without relations, compatible with the SDK's RecordModel
+export type ExpandFields = Record<string, unknown>
+
+export type BaseSystemFields<Texpand = ExpandFields> = {
+  id: RecordIdString
+  collectionId: string
+  collectionName: Collections
+  expand?: Texpand
+}
+
+export type AuthSystemFields<Texpand = ExpandFields> = {
+  email: string
+  emailVisibility: boolean
+  verified: boolean
+} & BaseSystemFields<Texpand>
+
+export type UsersRoleOptions = "viewer" | "member" | "admin"
+
+export type UsersRecord = {
+  name?: string
+  avatar?: string
+  role?: UsersRoleOptions
+  disabled?: boolean
+  invite?: RecordIdString
+  created?: IsoDateString
+  updated?: IsoDateString
+}
+
+export type UsersExpand = {
+  invite?: InvitesResponse
+}
+
+export type UsersResponse<Texpand = UsersExpand> = Required<UsersRecord> & AuthSystemFields<Texpand>
+
+export type SessionsRecord = {
+  user: RecordIdString
+  userAgent?: string
+  ip?: string
+  location?: string
+  lastActive?: IsoDateString
+  revoked?: boolean
+  created?: IsoDateString
+  updated?: IsoDateString
+}
+
+export type SessionsExpand = {
+  user?: UsersResponse
+}
+
+export type SessionsResponse<Texpand = SessionsExpand> = Required<SessionsRecord> & BaseSystemFields<Texpand>
+
+export type LoginEventsMethodOptions = "password" | "otp" | "mfa" | "oauth2"
+
+export type LoginEventsRecord = {
+  user?: RecordIdString
+  identity?: string
+  method: LoginEventsMethodOptions
+  success?: boolean
+  ip?: string
+  userAgent?: string
+  created?: IsoDateString
+}
+
+export type LoginEventsExpand = {
+  user?: UsersResponse
+}
+
+export type LoginEventsResponse<Texpand = LoginEventsExpand> = Required<LoginEventsRecord> & BaseSystemFields<Texpand>
+
+export type InvitesRecord = {
+  createdBy: RecordIdString
+  email?: string
+  maxUses?: number
+  usedBy?: RecordIdString[]
+  expiresAt?: IsoDateString
+  revoked?: boolean
+  created?: IsoDateString
+  updated?: IsoDateString
+}
+
+export type InvitesExpand = {
+  createdBy?: UsersResponse
+  usedBy?: UsersResponse[]
+}
+
+export type InvitesResponse<Texpand = InvitesExpand> = Required<InvitesRecord> & BaseSystemFields<Texpand>
+
+export type WorkspacesRecord = {
+  name: string
+  owner: RecordIdString
+  created?: IsoDateString
+  updated?: IsoDateString
+}
+
+export type WorkspacesExpand = {
+  owner?: UsersResponse
+}
+
+export type WorkspacesResponse<Texpand = WorkspacesExpand> = Required<WorkspacesRecord> & BaseSystemFields<Texpand>
+
+export type WorkspaceInvitationsRoleOptions = "admin" | "member"
+
+export type WorkspaceInvitationsRecord = {
+  workspace: RecordIdString
+  email: string
+  role: WorkspaceInvitationsRoleOptions
+  invitedBy: RecordIdString
+  expiresAt: IsoDateString
+  created?: IsoDateString
+  updated?: IsoDateString
+}
+
+export type WorkspaceInvitationsExpand = {
+  workspace?: WorkspacesResponse
+  invitedBy?: UsersResponse
+}
+
+export type WorkspaceInvitationsResponse<Texpand = WorkspaceInvitationsExpand> = Required<WorkspaceInvitationsRecord> & BaseSystemFields<Texpand>
+
+export type WorkspaceMembersRoleOptions = "owner" | "admin" | "member"
+
+export type WorkspaceMembersRecord = {
+  workspace: RecordIdString
+  user: RecordIdString
+  role: WorkspaceMembersRoleOptions
+  invitation?: RecordIdString
+  created?: IsoDateString
+  updated?: IsoDateString
+}
+
+export type WorkspaceMembersExpand = {
+  workspace?: WorkspacesResponse
+  user?: UsersResponse
+  invitation?: WorkspaceInvitationsResponse
+}
+
+export type WorkspaceMembersResponse<Texpand = WorkspaceMembersExpand> = Required<WorkspaceMembersRecord> & BaseSystemFields<Texpand>
+
+export type CollectionRecords = {
+  users: UsersRecord
+  sessions: SessionsRecord
+  login_events: LoginEventsRecord
+  invites: InvitesRecord
+  workspaces: WorkspacesRecord
+  workspace_invitations: WorkspaceInvitationsRecord
+  workspace_members: WorkspaceMembersRecord
+}
+
+export type CollectionResponses = {
+  users: UsersResponse
+  sessions: SessionsResponse
+  login_events: LoginEventsResponse
+  invites: InvitesResponse
+  workspaces: WorkspacesResponse
+  workspace_invitations: WorkspaceInvitationsResponse
+  workspace_members: WorkspaceMembersResponse
+}
+
+// PocketBase client whose collection() returns typed record services for known collections
+export type TypedPocketBase = PocketBase & {
+  collection(idOrName: "users"): RecordService<UsersResponse>
+  collection(idOrName: "sessions"): RecordService<SessionsResponse>
+  collection(idOrName: "login_events"): RecordService<LoginEventsResponse>
+  collection(idOrName: "invites"): RecordService<InvitesResponse>
+  collection(idOrName: "workspaces"): RecordService<WorkspacesResponse>
+  collection(idOrName: "workspace_invitations"): RecordService<WorkspaceInvitationsResponse>
+  collection(idOrName: "workspace_members"): RecordService<WorkspaceMembersResponse>
+}
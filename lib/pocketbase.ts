@@ -1,40 +1,45 @@
 import PocketBase from "pocketbase";
 import { loadEnvConfig } from "@next/env";
+import { AUTH_COOKIE_NAME } from "@/lib/auth-cookie";
+import type { TypedPocketBase } from "@/lib/pocketbase-types";
 
 // Initialize PocketBase client with the URL from environment variable or fallback to default
 let backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
 
 console.log(backendUrl);
-export const pb = new PocketBase(backendUrl);
+// Typed with the generated schema types, so pb.collection("users") returns real record shapes
+export const pb = new PocketBase(backendUrl) as TypedPocketBase;
 
-// Persist auth state in localStorage
+// Keep the Retry-After of rate limited responses, ClientResponseError only carries the body (see lib/cooldown).
+// Cross-origin backends must list it in Access-Control-Expose-Headers for the browser to allow reading it.
+pb.afterSend = (response, data) => {
+  if (response.status === 429) {
+    return { ...data, retryAfter: response.headers.get("Retry-After") };
+  }
+  return data;
+};
+
+// Persist auth state in a cookie so the middleware can see who is signed in
 // Only run this code in the browser environment
 if (typeof window !== "undefined") {
-  // Load auth state from localStorage if available
-  const storedAuthData = localStorage.getItem("pocketbase_auth");
-  if (storedAuthData) {
-    try {
-      const { token, model } = JSON.parse(storedAuthData);
-      pb.authStore.save(token, model);
-    } catch (error) {
-      console.error("Failed to restore auth state:", error);
-      localStorage.removeItem("pocketbase_auth");
-    }
-  }
+  // Load auth state from the cookie if available
+  pb.authStore.loadFromCookie(document.cookie, AUTH_COOKIE_NAME);
+
+  // Drop the legacy localStorage copy used before the cookie store
+  localStorage.removeItem("pocketbase_auth");
 
-  // Save auth state to localStorage on change
+  // Save auth state to the cookie on change
   pb.authStore.onChange(() => {
-    if (pb.authStore.isValid) {
-      localStorage.setItem(
-        "pocketbase_auth",
-        JSON.stringify({
-          token: pb.authStore.token,
-          model: pb.authStore.model,
-        }),
-      );
-    } else {
-      localStorage.removeItem("pocketbase_auth");
-    }
+    document.cookie = pb.authStore.exportToCookie(
+      {
+        // The cookie is written from the browser, so it can't be httpOnly
+        httpOnly: false,
+        secure: window.location.protocol === "https:",
+        // Lax so links from verification emails still carry the session
+        sameSite: "Lax",
+      },
+      AUTH_COOKIE_NAME,
+    );
   });
 }
 
@@ -0,0 +1,13 @@
+import type { NextRequest } from "next/server"
+
+// Client IP as seen by the proxy in front of the app
+export const getClientIp = (request: NextRequest) => {
+  return request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip") || ""
+}
+
+// Approximate location from the geo headers set by the hosting platform, if any
+export const getClientLocation = (request: NextRequest) => {
+  const city = request.headers.get("x-vercel-ip-city")
+  const country = request.headers.get("x-vercel-ip-country") || request.headers.get("cf-ipcountry")
+  return [city && decodeURIComponent(city), country].filter(Boolean).join(", ")
+}
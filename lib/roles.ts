@@ -0,0 +1,57 @@
+// Roles and permissions. Shared by the browser and the middleware, so it must not import PocketBase itself.
+import { matchesRoute } from "@/lib/auth-cookie"
+import type { UsersRoleOptions } from "@/lib/pocketbase-types"
+
+// Stored in the users "role" select field. Users can't set it themselves: the create and update rules
+// of the users collection reject requests that include it.
+export type Role = UsersRoleOptions
+
+// From least to most privileged
+export const ROLES: Role[] = ["viewer", "member", "admin"]
+
+// Role of users whose record has no role set, e.g. accounts created before roles existed
+export const DEFAULT_ROLE: Role = "member"
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  member: "Member",
+  admin: "Admin",
+}
+
+export type Permission = "dashboard:view" | "settings:view" | "invites:manage" | "users:manage"
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ["dashboard:view", "settings:view"],
+  member: ["dashboard:view", "settings:view", "invites:manage"],
+  admin: ["dashboard:view", "settings:view", "invites:manage", "users:manage"],
+}
+
+// Routes that need a permission, most specific first. Pages under a route inherit its permission.
+export const ROUTE_PERMISSIONS: { route: string; permission: Permission }[] = [
+  { route: "/dashboard/admin/users", permission: "users:manage" },
+  { route: "/dashboard/settings", permission: "settings:view" },
+  { route: "/dashboard", permission: "dashboard:view" },
+]
+
+// Page shown, with a 403 status, to users who open a route they don't have the permission for
+export const FORBIDDEN_ROUTE = "/forbidden"
+
+// Role from a record's role field, which is empty for users that were never given one
+export const getRole = (value: unknown): Role => {
+  return ROLES.includes(value as Role) ? (value as Role) : DEFAULT_ROLE
+}
+
+// Check whether a role is at least as privileged as another
+export const isRoleAtLeast = (role: Role, minimum: Role) => {
+  return ROLES.indexOf(role) >= ROLES.indexOf(minimum)
+}
+
+export const roleHasPermission = (role: Role, permission: Permission) => {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Helper function to find the permission a pathname needs, null when it's open to every signed-in user
+export const getRoutePermission = (pathname: string) => {
+  const match = ROUTE_PERMISSIONS.find(({ route }) => matchesRoute(pathname, [route]))
+  return match?.permission || null
+}
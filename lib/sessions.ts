@@ -0,0 +1,115 @@
+import type { RecordModel } from "pocketbase"
+import { pb } from "@/lib/pocketbase"
+import type { SessionsResponse } from "@/lib/pocketbase-types"
+
+// Companion "sessions" collection, one record per signed-in browser:
+//   user (relation to users), userAgent (text), ip (text), location (text),
+//   lastActive (date), revoked (bool), created (autodate, "first seen")
+// API rules: list/view/delete "user = @request.auth.id", create "@request.auth.id != '' && user = @request.auth.id",
+// update "user = @request.auth.id && <user is not set> && <revoked is not set or true>", so revoking can't be undone.
+// PocketBase tokens are stateless and don't say which session they belong to, so revoking a single session doesn't
+// invalidate its token: that browser signs itself out the next time it reports activity, which it does at least every
+// SESSION_CHECK_INTERVAL, and the token keeps working for API calls until then. Signing out all other sessions also
+// invalidates their tokens right away through pb_hooks/sessions.pb.js.
+export const SESSIONS_COLLECTION = "sessions"
+
+// How often an open tab reports activity, and finds out whether its session was revoked
+export const SESSION_CHECK_INTERVAL = 5 * 60 * 1000
+
+// Session record id of this browser, per user
+const SESSION_IDS_KEY = "pocketbase_session_ids"
+
+export type Session = SessionsResponse
+
+const getSessionIds = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_IDS_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+// Helper function to get this browser's session record id for a user
+export const getCurrentSessionId = (userId: string) => getSessionIds()[userId] || null
+
+const setCurrentSessionId = (userId: string, sessionId: string | null) => {
+  const ids = getSessionIds()
+  if (sessionId) {
+    ids[userId] = sessionId
+  } else {
+    delete ids[userId]
+  }
+  localStorage.setItem(SESSION_IDS_KEY, JSON.stringify(ids))
+}
+
+// Report activity for the signed-in user's session, creating it on first sign-in.
+// Goes through our route handler so the IP and location come from the request.
+// Returns false when the session has been revoked from another device or its token no longer works.
+export const trackSession = async (userId: string) => {
+  const response = await fetch("/api/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sessionId: getCurrentSessionId(userId) }),
+  })
+
+  if (response.status === 410 || response.status === 401) {
+    setCurrentSessionId(userId, null)
+    return false
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to track session (${response.status})`)
+  }
+
+  const { id } = await response.json()
+  setCurrentSessionId(userId, id)
+  return true
+}
+
+export const listSessions = (userId: string) => {
+  return pb.collection(SESSIONS_COLLECTION).getFullList<Session>({
+    filter: pb.filter("user = {:userId} && revoked = false", { userId }),
+    sort: "-lastActive",
+  })
+}
+
+export const revokeSession = (sessionId: string) => {
+  return pb.collection(SESSIONS_COLLECTION).update(sessionId, { revoked: true })
+}
+
+// Revoke every session of the user except this browser's, which gets a new token as the old ones stop working
+export const revokeOtherSessions = async (userId: string) => {
+  const { token, record } = await pb.send<{ token: string; record: RecordModel }>("/api/sessions/revoke-others", {
+    method: "POST",
+    body: { sessionId: getCurrentSessionId(userId) },
+  })
+  pb.authStore.save(token, record)
+}
+
+// Checked in order: Chrome user agents also mention Safari, Edge and Opera ones also mention Chrome
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg\//],
+  ["Opera", /OPR\//],
+  ["Firefox", /Firefox\//],
+  ["Chrome", /Chrome\//],
+  ["Safari", /Safari\//],
+]
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X/],
+  ["Linux", /Linux/],
+]
+
+const matchName = (candidates: [string, RegExp][], userAgent: string) => {
+  return candidates.find(([, pattern]) => pattern.test(userAgent))?.[0]
+}
+
+// Short "Chrome on macOS" style description of a user agent
+export const describeUserAgent = (userAgent: string) => {
+  const browser = matchName(BROWSERS, userAgent) || "Unknown browser"
+  const os = matchName(OPERATING_SYSTEMS, userAgent) || "unknown device"
+  return `${browser} on ${os}`
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// PocketBase returns dates as "2024-01-31 12:00:00.000Z", which not every browser parses
+export function parsePocketBaseDate(value: string) {
+  return new Date(value.replace(" ", "T"))
+}
@@ -0,0 +1,169 @@
+import { pb } from "@/lib/pocketbase"
+import type {
+  UsersResponse,
+  WorkspaceInvitationsResponse,
+  WorkspaceMembersResponse,
+  WorkspaceMembersRoleOptions,
+  WorkspacesResponse,
+} from "@/lib/pocketbase-types"
+import { parsePocketBaseDate } from "@/lib/utils"
+
+// Workspaces group users and the data they share. Three companion collections:
+//   workspaces: name (text), owner (relation to users)
+//   workspace_members: workspace, user, role (owner/admin/member), invitation (the one it was created from);
+//     unique on (workspace, user)
+//   workspace_invitations: workspace, email, role (admin/member), invitedBy, expiresAt
+// Members see their workspaces and each other. Owners and admins rename the workspace, invite, change roles and
+// remove members; only the owner deletes it. The owner's membership is created with the workspace by
+// pb_hooks/workspaces.pb.js; any other membership only by the invited user from an unexpired invitation to their own,
+// verified, email address. The invitation email is sent, and accepted invitations deleted, by
+// pb_hooks/workspace_invitations.pb.js.
+//
+// Collections holding workspace data get a "workspace" relation (cascade delete) and the rule
+//   @collection.workspace_members.workspace ?= workspace && @collection.workspace_members.user ?= @request.auth.id
+// then useWorkspaceRecords lists them for the active workspace.
+export const WORKSPACES_COLLECTION = "workspaces"
+export const WORKSPACE_MEMBERS_COLLECTION = "workspace_members"
+export const WORKSPACE_INVITATIONS_COLLECTION = "workspace_invitations"
+
+// Query parameter carrying an invitation on /dashboard/workspaces, as linked from the invitation email
+export const INVITATION_PARAM = "invitation"
+
+const INVITATION_DURATION_DAYS = 7
+
+export type Workspace = WorkspacesResponse
+export type WorkspaceRole = WorkspaceMembersRoleOptions
+
+// A workspace the user belongs to, with their role in it
+export type WorkspaceMembership = WorkspaceMembersResponse<{ workspace: WorkspacesResponse }>
+export type WorkspaceMember = WorkspaceMembersResponse<{ user?: UsersResponse }>
+export type WorkspaceInvitation = WorkspaceInvitationsResponse<{ workspace?: WorkspacesResponse }>
+
+// Every workspace has exactly one owner, the other roles can be given through invitations and role changes
+export type AssignableWorkspaceRole = Exclude<WorkspaceRole, "owner">
+
+export const ASSIGNABLE_WORKSPACE_ROLES: AssignableWorkspaceRole[] = ["admin", "member"]
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+}
+
+export const canManageWorkspace = (role: WorkspaceRole | null) => role === "owner" || role === "admin"
+
+// Restrict a filter to the records of one workspace
+export const scopeToWorkspace = (workspaceId: string, filter?: string) => {
+  const scope = pb.filter("workspace = {:workspaceId}", { workspaceId })
+  return filter ? `${scope} && (${filter})` : scope
+}
+
+// The last used workspace of each user, so they come back to it on this browser
+const getLastWorkspaceKey = (userId: string) => `lastWorkspace:${userId}`
+
+export const getLastWorkspaceId = (userId: string) => {
+  return localStorage.getItem(getLastWorkspaceKey(userId))
+}
+
+export const saveLastWorkspaceId = (userId: string, workspaceId: string) => {
+  localStorage.setItem(getLastWorkspaceKey(userId), workspaceId)
+}
+
+// Helper function to list the user's workspaces, oldest first
+export const listMemberships = async (userId: string) => {
+  const memberships = await pb.collection("workspace_members").getFullList<WorkspaceMembership>({
+    filter: pb.filter("user = {:userId}", { userId }),
+    expand: "workspace",
+    sort: "created",
+    requestKey: null,
+  })
+  return memberships.filter((membership) => membership.expand?.workspace)
+}
+
+// Create a workspace owned by the user. The backend makes them its first member.
+export const createWorkspace = async (userId: string, name: string) => {
+  return pb.collection("workspaces").create<Workspace>({ name, owner: userId })
+}
+
+export const renameWorkspace = async (id: string, name: string) => {
+  return pb.collection("workspaces").update(id, { name })
+}
+
+// Memberships and invitations are removed with the workspace by cascade delete
+export const deleteWorkspace = async (id: string) => {
+  await pb.collection("workspaces").delete(id)
+}
+
+export const listMembers = async (workspaceId: string) => {
+  return pb.collection("workspace_members").getFullList<WorkspaceMember>({
+    filter: scopeToWorkspace(workspaceId),
+    expand: "user",
+    sort: "created",
+    requestKey: null,
+  })
+}
+
+export const updateMemberRole = async (id: string, role: AssignableWorkspaceRole) => {
+  return pb.collection("workspace_members").update<WorkspaceMember>(id, { role }, { expand: "user" })
+}
+
+// Remove a member, or leave the workspace when it's the user's own membership
+export const removeMember = async (id: string) => {
+  await pb.collection("workspace_members").delete(id)
+}
+
+export const isInvitationExpired = (invitation: WorkspaceInvitation) => {
+  return parsePocketBaseDate(invitation.expiresAt).getTime() <= Date.now()
+}
+
+// Helper function to list the invitations of a workspace that are still waiting for an answer
+export const listWorkspaceInvitations = async (workspaceId: string) => {
+  const invitations = await pb.collection("workspace_invitations").getFullList<WorkspaceInvitation>({
+    filter: scopeToWorkspace(workspaceId),
+    sort: "-created",
+    requestKey: null,
+  })
+  return invitations.filter((invitation) => !isInvitationExpired(invitation))
+}
+
+// Helper function to list the invitations sent to the user's email address
+export const listReceivedInvitations = async (email: string) => {
+  const invitations = await pb.collection("workspace_invitations").getFullList<WorkspaceInvitation>({
+    filter: pb.filter("email = {:email}", { email: email.toLowerCase() }),
+    expand: "workspace",
+    sort: "-created",
+    requestKey: null,
+  })
+  return invitations.filter((invitation) => !isInvitationExpired(invitation) && invitation.expand?.workspace)
+}
+
+export const inviteToWorkspace = async (
+  workspaceId: string,
+  userId: string,
+  email: string,
+  role: AssignableWorkspaceRole,
+) => {
+  return pb.collection("workspace_invitations").create<WorkspaceInvitation>({
+    workspace: workspaceId,
+    // Matched against the invitee's auth email by the API rules
+    email: email.trim().toLowerCase(),
+    role,
+    invitedBy: userId,
+    expiresAt: new Date(Date.now() + INVITATION_DURATION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  })
+}
+
+// Revoking and declining both delete the invitation
+export const deleteInvitation = async (id: string) => {
+  await pb.collection("workspace_invitations").delete(id)
+}
+
+// Join the workspace with the role the invitation offers. The backend deletes the invitation as it is accepted.
+export const acceptInvitation = async (invitation: WorkspaceInvitation, userId: string) => {
+  await pb.collection("workspace_members").create({
+    workspace: invitation.workspace,
+    user: userId,
+    role: invitation.role,
+    invitation: invitation.id,
+  })
+}
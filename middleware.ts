@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server"
+import PocketBase from "pocketbase"
+import {
+  ADD_ACCOUNT_PARAM,
+  AUTH_COOKIE_NAME,
+  GUEST_ONLY_ROUTES,
+  PROTECTED_ROUTES,
+  VERIFY_EMAIL_ROUTE,
+  matchesRoute,
+} from "@/lib/auth-cookie"
+import { FORBIDDEN_ROUTE, getRole, getRoutePermission, roleHasPermission } from "@/lib/roles"
+
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  // Restore the auth state from the request cookie in an isolated client
+  const pb = new PocketBase(process.env.NEXT_PUBLIC_BACKEND_URL)
+  pb.authStore.loadFromCookie(request.headers.get("cookie") || "", AUTH_COOKIE_NAME)
+
+  const isSignedIn = pb.authStore.isValid
+  const isVerified = isSignedIn && Boolean(pb.authStore.record?.verified)
+
+  const redirectTo = (path: string) => NextResponse.redirect(new URL(path, request.url))
+
+  if (pathname === "/") {
+    if (!isSignedIn) return redirectTo("/login")
+    return redirectTo(isVerified ? "/dashboard" : VERIFY_EMAIL_ROUTE)
+  }
+
+  if (matchesRoute(pathname, PROTECTED_ROUTES)) {
+    if (!isSignedIn) return redirectTo("/login")
+    if (!isVerified) return redirectTo(VERIFY_EMAIL_ROUTE)
+
+    // Show the 403 page in place, redirecting would loop for users who can't open the route they're sent to
+    const permission = getRoutePermission(pathname)
+    if (permission && !roleHasPermission(getRole(pb.authStore.record?.role), permission)) {
+      return NextResponse.rewrite(new URL(FORBIDDEN_ROUTE, request.url), { status: 403 })
+    }
+  }
+
+  if (matchesRoute(pathname, [VERIFY_EMAIL_ROUTE])) {
+    if (!isSignedIn) return redirectTo("/login")
+    if (isVerified) return redirectTo("/dashboard")
+  }
+
+  const isAddingAccount = request.nextUrl.searchParams.has(ADD_ACCOUNT_PARAM)
+  if (matchesRoute(pathname, GUEST_ONLY_ROUTES) && isSignedIn && !isAddingAccount) {
+    return redirectTo(isVerified ? "/dashboard" : VERIFY_EMAIL_ROUTE)
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ["/", "/dashboard/:path*", "/verify-email", "/login", "/register"],
+}
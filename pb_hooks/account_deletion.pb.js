@@ -0,0 +1,57 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Account deletion (lib/account-data.ts). Copy this file into the pb_hooks directory next to the PocketBase
+// executable. A token alone isn't enough to delete an account: the request body has to confirm it with the password,
+// or with an email code requested for the account ({ otpId, otp }).
+// The records a user owns are removed by the cascade delete of their relation to the user; this adds the failed
+// sign-ins recorded before they were attributed to accounts, which only carry the email. Everything runs in the
+// transaction of the user's deletion, so a failure leaves all the data in place.
+onRecordDeleteRequest((e) => {
+  let otp = null
+  if (!e.hasSuperuserAuth()) {
+    const body = e.requestInfo().body
+
+    if (body.otpId) {
+      try {
+        otp = e.app.findRecordById("_otps", body.otpId)
+      } catch (error) {
+        // Unknown or already used code request, handled below
+      }
+
+      const collection = e.record.collection()
+      const isValid =
+        otp &&
+        otp.getString("collectionRef") === collection.id &&
+        otp.getString("recordRef") === e.record.id &&
+        otp.getDateTime("created").time().unix() + collection.otp.duration > Math.floor(Date.now() / 1000) &&
+        otp.validatePassword(String(body.otp || ""))
+      if (!isValid) {
+        throw new BadRequestError("Failed to confirm the deletion.", {
+          otp: new ValidationError("validation_invalid_otp", "The code is invalid or has expired."),
+        })
+      }
+    } else if (!e.record.validatePassword(String(body.password || ""))) {
+      throw new BadRequestError("Failed to confirm the deletion.", {
+        password: new ValidationError("validation_invalid_password", "Incorrect password."),
+      })
+    }
+  }
+
+  e.app.runInTransaction((txApp) => {
+    // The code can only confirm one deletion
+    if (otp) {
+      txApp.delete(otp)
+    }
+
+    const events = txApp.findRecordsByFilter("login_events", "user = '' && identity = {:email}", "", 0, 0, {
+      email: e.record.email(),
+    })
+    for (const event of events) {
+      txApp.delete(event)
+    }
+
+    // Deletes the user and cascades within this transaction
+    e.app = txApp
+    e.next()
+  })
+}, "users")
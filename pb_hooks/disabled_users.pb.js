@@ -0,0 +1,23 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Disabling an account (lib/admin-users.ts). Copy this file into the pb_hooks directory next to the PocketBase
+// executable. The auth rule "disabled = false" only refuses new sign-ins, so disabling also gives the user a new token
+// key, which invalidates the tokens of their existing sessions, and marks those sessions revoked.
+onRecordUpdate((e) => {
+  const isDisabling = e.record.getBool("disabled") && !e.record.original().getBool("disabled")
+  if (isDisabling) {
+    e.record.refreshTokenKey()
+  }
+
+  e.next()
+
+  if (isDisabling) {
+    const sessions = e.app.findRecordsByFilter("sessions", "user = {:userId} && revoked = false", "", 0, 0, {
+      userId: e.record.id,
+    })
+    for (const session of sessions) {
+      session.set("revoked", true)
+      e.app.save(session)
+    }
+  }
+}, "users")
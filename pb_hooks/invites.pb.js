@@ -0,0 +1,50 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Server side of invites (lib/invites.ts). Copy this file into the pb_hooks directory next to the PocketBase
+// executable and start PocketBase with the same NEXT_PUBLIC_REGISTRATION=invite as the app for invite-only sign-ups.
+
+// Accounts created with an invite use it up: the invite is checked and the new user added to usedBy in the
+// transaction that creates the user, so concurrent sign-ups can't go past maxUses. In invite mode every account
+// created through the API needs one: the registration form, email code sign-ups and OAuth2 sign-ups alike.
+// Superusers can still create accounts from the dashboard.
+onRecordCreateRequest((e) => {
+  const code = e.record.getString("invite")
+  const isInviteOnly = $os.getenv("NEXT_PUBLIC_REGISTRATION") === "invite"
+  if (e.hasSuperuserAuth() || (!code && !isInviteOnly)) {
+    return e.next()
+  }
+
+  e.app.runInTransaction((txApp) => {
+    let invite = null
+    if (code) {
+      try {
+        invite = txApp.findRecordById("invites", code)
+      } catch (error) {
+        // Unknown code, handled below
+      }
+    }
+
+    if (!invite) {
+      throw new BadRequestError("An invite is required to create an account.")
+    }
+
+    const email = invite.getString("email")
+    const expiresAt = invite.getDateTime("expiresAt")
+    const maxUses = invite.getInt("maxUses")
+    if (
+      invite.getBool("revoked") ||
+      (!expiresAt.isZero() && expiresAt.time().unix() <= Math.floor(Date.now() / 1000)) ||
+      (email && email.toLowerCase() !== e.record.email().toLowerCase()) ||
+      (maxUses > 0 && invite.getStringSlice("usedBy").length >= maxUses)
+    ) {
+      throw new BadRequestError("This invite is no longer valid.")
+    }
+
+    // Creates the user within this transaction
+    e.app = txApp
+    e.next()
+
+    invite.set("usedBy+", e.record.id)
+    txApp.save(invite)
+  })
+}, "users")
@@ -0,0 +1,20 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Record a failed sign-in of the user, see login_events.pb.js
+module.exports = {
+  recordFailedLogin: (e, user, method) => {
+    try {
+      const event = new Record(e.app.findCollectionByNameOrId("login_events"))
+      event.set("user", user.id)
+      event.set("identity", user.email())
+      event.set("method", method)
+      event.set("success", false)
+      event.set("ip", e.realIP())
+      event.set("userAgent", e.request.header.get("User-Agent"))
+      e.app.save(event)
+    } catch (error) {
+      // Losing a history entry must not change the sign-in response
+      e.app.logger().error("Failed to record login event", "user", user.id, "error", error)
+    }
+  },
+}
@@ -0,0 +1,41 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Failed sign-ins for the login history (lib/login-events.ts). Copy this file into the pb_hooks directory next to the
+// PocketBase executable. Only the backend knows which account an attempt was for, so failures are recorded here
+// against that account; attempts on unknown identities aren't recorded at all. Handlers can't see the rest of this
+// file, so the shared helper lives in login_events.js.
+
+// e.record is the account matching the identity, if any; the password itself is checked after this hook
+onRecordAuthWithPasswordRequest((e) => {
+  if (e.record && !e.record.validatePassword(e.password)) {
+    require(`${__hooks}/login_events.js`).recordFailedLogin(e, e.record, "password")
+  }
+
+  e.next()
+}, "users")
+
+// The code is checked before the OTP auth hooks run, so wrong codes are caught on the route itself
+routerUse((e) => {
+  if (e.request.method !== "POST" || e.request.url.path !== "/api/collections/users/auth-with-otp") {
+    return e.next()
+  }
+
+  const body = e.requestInfo().body
+  let otp = null
+  try {
+    otp = e.app.findRecordById("_otps", body.otpId || "")
+  } catch (error) {
+    // Unknown or expired code request, nothing to attribute the attempt to
+  }
+
+  if (otp && !otp.validatePassword(body.password || "")) {
+    try {
+      const user = e.app.findRecordById("users", otp.getString("recordRef"))
+      require(`${__hooks}/login_events.js`).recordFailedLogin(e, user, body.mfaId ? "mfa" : "otp")
+    } catch (error) {
+      // The OTP belongs to another collection or a deleted account
+    }
+  }
+
+  return e.next()
+})
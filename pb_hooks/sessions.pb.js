@@ -0,0 +1,38 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// "Sign out all other sessions" (lib/sessions.ts). Copy this file into the pb_hooks directory next to the PocketBase
+// executable. Marking the sessions revoked only reaches browsers running the app, so this also gives the user a new
+// token key, which invalidates every token issued so far, and answers with a fresh token for the calling browser.
+routerAdd(
+  "POST",
+  "/api/sessions/revoke-others",
+  (e) => {
+    const userId = e.auth.id
+    const currentId = e.requestInfo().body.sessionId || ""
+
+    e.app.runInTransaction((txApp) => {
+      const sessions = txApp.findRecordsByFilter(
+        "sessions",
+        "user = {:userId} && revoked = false && id != {:currentId}",
+        "",
+        0,
+        0,
+        { userId, currentId },
+      )
+      for (const session of sessions) {
+        session.set("revoked", true)
+        txApp.save(session)
+      }
+
+      const user = txApp.findRecordById("users", userId)
+      user.refreshTokenKey()
+      txApp.save(user)
+    })
+
+    const user = e.app.findRecordById("users", userId)
+    // Same record as an auth response, which includes the user's own email
+    user.ignoreEmailVisibility(true)
+    return e.json(200, { token: user.newAuthToken(), record: user })
+  },
+  $apis.requireAuth("users"),
+)
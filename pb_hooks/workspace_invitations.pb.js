@@ -0,0 +1,62 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Email a workspace invitation to the address it was sent to. Copy this file into the pb_hooks directory next to the
+// PocketBase executable. The link uses the Application URL from the PocketBase settings, which must point at this app.
+onRecordAfterCreateSuccess((e) => {
+  const meta = e.app.settings().meta
+  const workspace = e.app.findRecordById("workspaces", e.record.get("workspace"))
+  const inviter = e.app.findRecordById("users", e.record.get("invitedBy"))
+  const url = `${meta.appURL}/dashboard/workspaces?invitation=${e.record.id}`
+
+  // Names are chosen by users: keep control characters out of the subject and markup out of the body
+  const toText = (value) =>
+    String(value)
+      .replace(/[\u0000-\u001f\u007f]+/g, " ")
+      .trim()
+  const toHtml = (value) => toText(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+  const inviterName = inviter.get("name") || inviter.get("email")
+  const workspaceName = workspace.get("name")
+
+  const message = new MailerMessage({
+    from: { address: meta.senderAddress, name: meta.senderName },
+    to: [{ address: e.record.get("email") }],
+    subject: `${toText(inviterName)} invited you to ${toText(workspaceName)}`,
+    html:
+      `<p>${toHtml(inviterName)} invited you to join the workspace <strong>${toHtml(workspaceName)}</strong>.</p>` +
+      `<p><a href="${toHtml(url)}">Accept the invitation</a></p>` +
+      `<p>Sign in or create an account with this email address to accept it. The invitation expires in 7 days.</p>`,
+  })
+
+  try {
+    e.app.newMailClient().send(message)
+  } catch (error) {
+    // The invitation still shows up for the invitee in the app
+    e.app.logger().error("Failed to send workspace invitation", "invitation", e.record.id, "error", error)
+  }
+
+  e.next()
+}, "workspace_invitations")
+
+// Accepting an invitation uses it up: it is deleted in the transaction that creates the membership, so it can't
+// bring back a member who was removed later
+onRecordCreateRequest((e) => {
+  const invitationId = e.record.getString("invitation")
+  if (!invitationId) {
+    return e.next()
+  }
+
+  e.app.runInTransaction((txApp) => {
+    const accepted = txApp.findRecordsByFilter("workspace_members", "invitation = {:invitationId}", "", 1, 0, {
+      invitationId,
+    })
+    if (accepted.length > 0) {
+      throw new BadRequestError("This invitation has already been accepted.")
+    }
+
+    // Creates the membership within this transaction, after the create rule checks the invitation
+    e.app = txApp
+    e.next()
+
+    txApp.delete(txApp.findRecordById("workspace_invitations", invitationId))
+  })
+}, "workspace_members")
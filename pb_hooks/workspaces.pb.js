@@ -0,0 +1,18 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Workspace owners (lib/workspaces.ts). Copy this file into the pb_hooks directory next to the PocketBase executable.
+// The owner's membership is created in the transaction that creates the workspace, so a workspace never exists
+// without one. Memberships can't be created with the owner role through the API.
+onRecordCreateRequest((e) => {
+  e.app.runInTransaction((txApp) => {
+    // Creates the workspace within this transaction
+    e.app = txApp
+    e.next()
+
+    const membership = new Record(txApp.findCollectionByNameOrId("workspace_members"))
+    membership.set("workspace", e.record.id)
+    membership.set("user", e.record.getString("owner"))
+    membership.set("role", "owner")
+    txApp.save(membership)
+  })
+}, "workspaces")
@@ -0,0 +1,163 @@
+// Generate TypeScript record types and a TypedPocketBase client from an exported PocketBase schema.
+// Export the schema from the dashboard (Settings > Export collections), then run:
+//   npm run typegen -- [schema.json] [output.ts]
+import { readFileSync, writeFileSync } from "node:fs"
+
+const [schemaPath = "pb_schema.json", outputPath = "lib/pocketbase-types.ts"] = process.argv.slice(2)
+
+// Fields every auth collection has, typed once in AuthSystemFields
+const AUTH_SYSTEM_FIELDS = ["email", "emailVisibility", "verified"]
+
+const toPascalCase = (value) =>
+  value
+    .replace(/^_+/, "")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+
+const quote = (value) => JSON.stringify(value)
+
+// Property keys that aren't valid identifiers need quoting
+const toKey = (name) => (/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : quote(name))
+
+const isMultiple = (field) => field.maxSelect !== undefined && field.maxSelect !== 1
+
+const getOptionsTypeName = (collection, field) => `${toPascalCase(collection.name)}${toPascalCase(field.name)}Options`
+
+const getFieldType = (collection, field) => {
+  switch (field.type) {
+    case "text":
+    case "editor":
+    case "email":
+    case "url":
+      return "string"
+    case "number":
+      return "number"
+    case "bool":
+      return "boolean"
+    case "date":
+    case "autodate":
+      return "IsoDateString"
+    case "select":
+      return isMultiple(field) ? `${getOptionsTypeName(collection, field)}[]` : getOptionsTypeName(collection, field)
+    case "relation":
+      return isMultiple(field) ? "RecordIdString[]" : "RecordIdString"
+    case "file":
+      return isMultiple(field) ? "string[]" : "string"
+    case "geoPoint":
+      return "GeoPoint"
+    case "json":
+      return "unknown"
+    default:
+      console.warn(`Unknown field type "${field.type}" on ${collection.name}.${field.name}, typed as unknown`)
+      return "unknown"
+  }
+}
+
+// Fields returned by the API, apart from the system fields typed separately
+const getRecordFields = (collection) =>
+  collection.fields.filter(
+    (field) =>
+      !field.hidden &&
+      !field.primaryKey &&
+      field.type !== "password" &&
+      !(collection.type === "auth" && AUTH_SYSTEM_FIELDS.includes(field.name)),
+  )
+
+const renderCollection = (collection, collectionsById) => {
+  const typeName = toPascalCase(collection.name)
+  const fields = getRecordFields(collection)
+  const lines = []
+
+  for (const field of fields.filter((field) => field.type === "select")) {
+    lines.push(
+      `export type ${getOptionsTypeName(collection, field)} = ${field.values.map((value) => quote(value)).join(" | ")}`,
+      "",
+    )
+  }
+
+  lines.push(`export type ${typeName}Record = {`)
+  for (const field of fields) {
+    // Autodate fields are set by the backend, so they're never needed when creating a record
+    const optional = field.required && field.type !== "autodate" ? "" : "?"
+    lines.push(`  ${toKey(field.name)}${optional}: ${getFieldType(collection, field)}`)
+  }
+  lines.push("}", "")
+
+  // Relations that can be expanded, typed with the related collection's response
+  const relations = fields.filter((field) => field.type === "relation" && collectionsById.has(field.collectionId))
+  if (relations.length > 0) {
+    lines.push(`export type ${typeName}Expand = {`)
+    for (const field of relations) {
+      const related = `${toPascalCase(collectionsById.get(field.collectionId).name)}Response`
+      lines.push(`  ${toKey(field.name)}?: ${isMultiple(field) ? `${related}[]` : related}`)
+    }
+    lines.push("}", "")
+  }
+
+  const expandType = relations.length > 0 ? `${typeName}Expand` : "ExpandFields"
+  const systemFields = collection.type === "auth" ? "AuthSystemFields" : "BaseSystemFields"
+  lines.push(
+    `export type ${typeName}Response<Texpand = ${expandType}> = Required<${typeName}Record> & ${systemFields}<Texpand>`,
+  )
+
+  return lines.join("\n")
+}
+
+const render = (collections) => {
+  const collectionsById = new Map(collections.map((collection) => [collection.id, collection]))
+  const names = collections.map((collection) => [collection.name, toPascalCase(collection.name)])
+
+  return [
+    `// Generated by scripts/generate-pocketbase-types.mjs from ${schemaPath}. Do not edit by hand, run "npm run typegen" instead.`,
+    "",
+    'import type PocketBase from "pocketbase"',
+    'import type { RecordService } from "pocketbase"',
+    "",
+    "export enum Collections {",
+    ...names.map(([name, typeName]) => `  ${typeName} = ${quote(name)},`),
+    "}",
+    "",
+    "export type IsoDateString = string",
+    "export type RecordIdString = string",
+    "export type GeoPoint = { lon: number; lat: number }",
+    "// Shape of expand for collections without relations, compatible with the SDK's RecordModel",
+    "export type ExpandFields = Record<string, unknown>",
+    "",
+    "export type BaseSystemFields<Texpand = ExpandFields> = {",
+    "  id: RecordIdString",
+    "  collectionId: string",
+    "  collectionName: Collections",
+    "  expand?: Texpand",
+    "}",
+    "",
+    "export type AuthSystemFields<Texpand = ExpandFields> = {",
+    "  email: string",
+    "  emailVisibility: boolean",
+    "  verified: boolean",
+    "} & BaseSystemFields<Texpand>",
+    "",
+    ...collections.flatMap((collection) => [renderCollection(collection, collectionsById), ""]),
+    "export type CollectionRecords = {",
+    ...names.map(([name, typeName]) => `  ${toKey(name)}: ${typeName}Record`),
+    "}",
+    "",
+    "export type CollectionResponses = {",
+    ...names.map(([name, typeName]) => `  ${toKey(name)}: ${typeName}Response`),
+    "}",
+    "",
+    "// PocketBase client whose collection() returns typed record services for known collections",
+    "export type TypedPocketBase = PocketBase & {",
+    ...names.map(([name, typeName]) => `  collection(idOrName: ${quote(name)}): RecordService<${typeName}Response>`),
+    "}",
+    "",
+  ].join("\n")
+}
+
+const schema = JSON.parse(readFileSync(schemaPath, "utf8"))
+// System collections (_superusers, _authOrigins, ...) keep the SDK's generic types
+const collections = schema.filter((collection) => !collection.system)
+
+writeFileSync(outputPath, render(collections))
+console.log(`Wrote ${collections.length} collection types to ${outputPath}`)